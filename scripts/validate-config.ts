@@ -0,0 +1,31 @@
+/* eslint-disable no-console */
+import { readFileSync } from 'fs';
+import { parse } from 'yaml';
+
+// Checks the chain and warp route configs the app assembles at startup
+// Usage: yarn validate-config [--json]
+// Exits with code 1 when issues are found
+
+// Mirrors yaml-loader from the Next.js build so the config modules can be required
+require.extensions['.yaml'] = (module, filename) => {
+  module.exports = parse(readFileSync(filename, 'utf8'));
+};
+
+// Assembly logs go to stderr to keep stdout parseable
+console.debug = console.error;
+console.info = console.error;
+
+async function main() {
+  const isJson = process.argv.includes('--json');
+  const { formatValidationReport, validateWarpConfig } = await import(
+    '../src/context/configValidation'
+  );
+  const report = await validateWarpConfig();
+  console.log(isJson ? JSON.stringify(report, null, 2) : formatValidationReport(report));
+  process.exitCode = report.issues.length ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error('Config validation failed', error);
+  process.exitCode = 1;
+});
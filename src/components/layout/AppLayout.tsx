@@ -2,10 +2,15 @@ import Head from 'next/head';
 import { PropsWithChildren } from 'react';
 
 import { APP_NAME, BACKGROUND_COLOR, BACKGROUND_IMAGE } from '../../consts/app';
+import { useDeliveryTracker } from '../../features/transfer/useDeliveryTracker';
+import { useResumeTransfers } from '../../features/transfer/useResumeTransfers';
 import { Footer } from '../nav/Footer';
 import { Header } from '../nav/Header';
 
 export function AppLayout({ children }: PropsWithChildren) {
+  useResumeTransfers();
+  useDeliveryTracker();
+
   return (
     <>
       <Head>
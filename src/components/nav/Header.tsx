@@ -1,6 +1,7 @@
 import Image from 'next/image';
 import Link from 'next/link';
 
+import { isDebugPageEnabled } from '../../features/debug/utils';
 import { WalletControlBar } from '../../features/wallet/WalletControlBar';
 import Logo from '../../images/logos/app-logo.svg';
 import Name from '../../images/logos/app-name.svg';
@@ -17,6 +18,20 @@ export function Header() {
         </Link>
         <div className="flex flex-col items-end gap-2 md:flex-row-reverse md:items-start">
           <WalletControlBar />
+          <Link
+            href="/routes"
+            className="px-2 py-2 text-sm font-medium text-white underline-offset-2 hover:underline"
+          >
+            Routes
+          </Link>
+          {isDebugPageEnabled() && (
+            <Link
+              href="/debug"
+              className="px-2 py-2 text-sm font-medium text-white underline-offset-2 hover:underline"
+            >
+              Debug
+            </Link>
+          )}
         </div>
       </div>
     </header>
@@ -5,36 +5,85 @@ import { ADDRESS_BLACKLIST } from './blacklist';
 const isDevMode = process?.env?.NODE_ENV === 'development';
 const version = process?.env?.NEXT_PUBLIC_VERSION || '0.0.0';
 const registryUrl = process?.env?.NEXT_PUBLIC_REGISTRY_URL || undefined;
+const registryAllowList = (process?.env?.NEXT_PUBLIC_REGISTRY_ALLOW_LIST || '')
+  .split(',')
+  .map((uri) => uri.trim())
+  .filter((uri) => !!uri);
+const enableDebugPage = process?.env?.NEXT_PUBLIC_ENABLE_DEBUG_PAGE === 'true';
+const explorerGraphqlUrl =
+  process?.env?.NEXT_PUBLIC_EXPLORER_GRAPHQL_URL || 'https://explorer4.hasura.app/v1/graphql';
 const explorerApiKeys = JSON.parse(process?.env?.EXPLORER_API_KEYS || '{}');
 const walletConnectProjectId = process?.env?.NEXT_PUBLIC_WALLET_CONNECT_ID || '';
 const withdrawalWhitelist = process?.env?.NEXT_PUBLIC_BLOCK_WITHDRAWAL_WHITELIST || '';
 const transferBlacklist = process?.env?.NEXT_PUBLIC_TRANSFER_BLACKLIST || '';
+const sanctionsProviders = (process?.env?.NEXT_PUBLIC_SANCTIONS_PROVIDERS || 'ofac,chainalysis')
+  .split(',')
+  .map((id) => id.trim())
+  .filter((id) => !!id);
+const sanctionsApiUrl = process?.env?.NEXT_PUBLIC_SANCTIONS_API_URL || undefined;
+const sanctionsDenyListUrl = process?.env?.NEXT_PUBLIC_SANCTIONS_DENY_LIST_URL || undefined;
+const sanctionsFailClosed = process?.env?.NEXT_PUBLIC_SANCTIONS_FAIL_CLOSED === 'true';
+const sanctionsCacheTtl = Number(process?.env?.NEXT_PUBLIC_SANCTIONS_CACHE_TTL || 3_600_000);
+const priceSource = process?.env?.NEXT_PUBLIC_PRICE_SOURCE || 'none';
+const priceApiUrl = process?.env?.NEXT_PUBLIC_PRICE_API_URL || 'https://api.coingecko.com/api/v3';
+const staticPrices = JSON.parse(process?.env?.NEXT_PUBLIC_STATIC_PRICES || '{}');
+const feeQuoteTolerance = Number(process?.env?.NEXT_PUBLIC_FEE_QUOTE_TOLERANCE || 10);
+const feeWarningThreshold = Number(process?.env?.NEXT_PUBLIC_FEE_WARNING_THRESHOLD || 5);
+const strictWarpConfig = process?.env?.NEXT_PUBLIC_STRICT_WARP_CONFIG === 'true';
 const chainWalletWhitelists = JSON.parse(process?.env?.NEXT_PUBLIC_CHAIN_WALLET_WHITELISTS || '{}');
 
 interface Config {
   addressBlacklist: string[]; // A list of addresses that are blacklisted and cannot be used in the app
   chainWalletWhitelists: ChainMap<string[]>; // A map of chain names to a list of wallet names that work for it
+  enableDebugPage: boolean; // Serve the /debug diagnostics page outside of dev mode
   enableExplorerLink: boolean; // Include a link to the hyperlane explorer in the transfer modal
   explorerApiKeys: Record<string, string>; // Optional map of API keys for block explorer
+  explorerGraphqlUrl: string; // GraphQL API of the Hyperlane explorer, used to track message delivery
+  feeQuoteTolerance: number; // Abort a transfer if its interchain fee rose by more than this percentage since the review
+  feeWarningThreshold: number; // Warn in the review step when fees exceed this percentage of the transfer value
   isDevMode: boolean; // Enables some debug features in the app
+  priceApiUrl: string; // Base URL of a CoinGecko-compatible API, used by the coingecko price source
+  priceSource: string; // Source of fiat prices, one of: coingecko, static, mock, none
+  registryAllowList: string[]; // Registry URLs users may switch to at runtime, GitHub repos or HTTP servers of registry json exports
   registryUrl: string | undefined; // Optional URL to use a custom registry instead of the published canonical version
+  sanctionsApiUrl: string | undefined; // Optional custom screening endpoint, queried with address and protocol params, must return { sanctioned: boolean }
+  sanctionsCacheTtl: number; // How long in ms sanctions lists and screening results are cached
+  sanctionsDenyListUrl: string | undefined; // Optional path or URL of a JSON array of addresses to block on all protocols (e.g. /deny-list.json in public)
+  sanctionsFailClosed: boolean; // Treat addresses as sanctioned when a provider fails, instead of letting them through
+  sanctionsProviders: string[]; // Built-in sanctions providers to use, any of: ofac, chainalysis
   showDisabledTokens: boolean; // Show/Hide invalid token options in the selection modal
   showTipBox: boolean; // Show/Hide the blue tip box above the transfer form
-  transferBlacklist: string; // comma-separated list of routes between which transfers are disabled. Expects Caip2Id-Caip2Id (e.g. ethereum:1-sealevel:1399811149)
+  staticPrices: Record<string, number>; // USD prices by CoinGecko id or lowercase symbol, used by the static price source
+  strictWarpConfig: boolean; // Refuse to start when duplicate warp token definitions disagree on decimals or standard
+  transferBlacklist: string; // comma-separated list of routes between which transfers are disabled. Expects Caip2Id-Caip2Id (e.g. ethereum:1-sealevel:1399811149), wildcards allowed (e.g. ethereum:*-*)
   version: string; // Matches version number in package.json
   walletConnectProjectId: string; // Project ID provided by walletconnect
-  withdrawalWhitelist: string; // comma-separated list of CAIP2 chain IDs to which transfers are supported
+  withdrawalWhitelist: string; // comma-separated list of CAIP2 chain IDs to which transfers are supported, wildcards allowed (e.g. sealevel:*)
 }
 
 export const config: Config = Object.freeze({
   addressBlacklist: ADDRESS_BLACKLIST.map((address) => address.toLowerCase()),
   chainWalletWhitelists,
+  enableDebugPage,
   enableExplorerLink: false,
   explorerApiKeys,
+  explorerGraphqlUrl,
+  feeQuoteTolerance,
+  feeWarningThreshold,
   isDevMode,
+  priceApiUrl,
+  priceSource,
+  registryAllowList,
   registryUrl,
+  sanctionsApiUrl,
+  sanctionsCacheTtl,
+  sanctionsDenyListUrl,
+  sanctionsFailClosed,
+  sanctionsProviders,
   showDisabledTokens: true,
   showTipBox: true,
+  staticPrices,
+  strictWarpConfig,
   version,
   transferBlacklist,
   walletConnectProjectId,
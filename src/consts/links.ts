@@ -13,3 +13,6 @@ export const links = {
   bounty:
     'https://github.com/search?q=org:hyperlane-xyz+label:bounty+is:open+is:issue&type=issues&s=&o=desc',
 };
+
+// Kept out of app.ts so registry code can load outside of Next.js, see scripts/validate-config.ts
+export const PROXY_DEPLOYED_URL = 'https://proxy.hyperlane.xyz';
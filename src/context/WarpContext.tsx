@@ -1,18 +1,34 @@
-import { useQuery } from '@tanstack/react-query';
-import { PropsWithChildren } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Fragment, PropsWithChildren, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
 
 import { Spinner } from '../components/animation/Spinner';
+import { startRpcHealthMonitor } from '../features/chains/rpcHealth';
+import { useStore } from '../features/store';
+import { startExplorerWorker } from '../features/transfer/explorerWorker';
+import { logger } from '../utils/logger';
 
 import { initWarpContext } from './context';
+import { getRegistrySourceKey, isRegistryAllowed } from './registry';
 
 export function WarpContext({ children }: PropsWithChildren<unknown>) {
+  const { registrySource, setRegistrySource } = useStore((s) => ({
+    registrySource: s.registrySource,
+    setRegistrySource: s.setRegistrySource,
+  }));
+  // A persisted source may have been removed from the allow-list since it was chosen
+  const source = registrySource && isRegistryAllowed(registrySource) ? registrySource : null;
+  const sourceKey = getRegistrySourceKey(source);
+
   const {
     data: warpContext,
     error,
     isLoading,
   } = useQuery({
-    queryKey: ['warpContext'],
-    queryFn: initWarpContext,
+    // The source key identifies the source, keeping the key stable across store updates
+    // eslint-disable-next-line @tanstack/query/exhaustive-deps
+    queryKey: ['warpContext', sourceKey],
+    queryFn: () => initWarpContext(source),
     retry: 2,
     staleTime: Infinity,
     refetchOnMount: false,
@@ -20,7 +36,37 @@ export function WarpContext({ children }: PropsWithChildren<unknown>) {
     refetchOnReconnect: false,
   });
 
-  if (error) {
+  // Cached queries hold tokens and chains of the previous registry
+  const queryClient = useQueryClient();
+  const prevSourceKey = useRef(sourceKey);
+  useEffect(() => {
+    if (prevSourceKey.current === sourceKey) return;
+    prevSourceKey.current = sourceKey;
+    queryClient.removeQueries({
+      predicate: (q) => !(q.queryKey[0] === 'warpContext' && q.queryKey[1] === sourceKey),
+    });
+  }, [queryClient, sourceKey]);
+
+  // Fall back to the configured registry rather than leaving the app unusable
+  useEffect(() => {
+    if (!error || !source) return;
+    logger.warn('Error initializing warp context for registry', source.uri, error);
+    toast.error(`Failed to load registry ${source.uri}, using the default registry`);
+    setRegistrySource(null);
+  }, [error, source, setRegistrySource]);
+
+  // Background workers depend on the warp context so start them once it's ready
+  useEffect(() => {
+    if (!warpContext) return;
+    const stopExplorerWorker = startExplorerWorker();
+    const stopRpcHealthMonitor = startRpcHealthMonitor();
+    return () => {
+      stopExplorerWorker();
+      stopRpcHealthMonitor();
+    };
+  }, [warpContext]);
+
+  if (error && !source) {
     // Fallback to outer error boundary
     const message =
       error instanceof Error
@@ -29,12 +75,13 @@ export function WarpContext({ children }: PropsWithChildren<unknown>) {
     throw new Error(`Failed to initialize warp context. ${message}`);
   }
 
-  if (isLoading || !warpContext)
+  if (isLoading || error || !warpContext)
     return (
       <div className="flex h-screen items-center justify-center bg-primary-500">
         <Spinner classes="opacity-50" white />
       </div>
     );
 
-  return <>{children}</>;
+  // Keyed by source so wallet contexts get remounted with the new chains
+  return <Fragment key={sourceKey}>{children}</Fragment>;
 }
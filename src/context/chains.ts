@@ -1,16 +1,17 @@
 import { z } from 'zod';
 
-import { GithubRegistry, chainMetadata } from '@hyperlane-xyz/registry';
+import { GithubRegistry, IRegistry, chainMetadata } from '@hyperlane-xyz/registry';
 import { ChainMap, ChainMetadata, ChainMetadataSchema } from '@hyperlane-xyz/sdk';
 
-import { PROXY_DEPLOYED_URL } from '../consts/app.ts';
 import { chains as ChainsTS } from '../consts/chains.ts';
 import ChainsYaml from '../consts/chains.yaml';
 import { config } from '../consts/config.ts';
+import { PROXY_DEPLOYED_URL } from '../consts/links.ts';
 import { cosmosDefaultChain } from '../features/chains/cosmosDefault';
 import { logger } from '../utils/logger';
 
-export async function assembleChainMetadata() {
+// A runtime registry, see RegistrySource, replaces the one configured at build time
+export async function assembleChainMetadata(runtimeRegistry?: IRegistry) {
   // Chains must include a cosmos chain or CosmosKit throws errors
   const result = z.record(ChainMetadataSchema).safeParse({
     cosmoshub: cosmosDefaultChain,
@@ -23,13 +24,15 @@ export async function assembleChainMetadata() {
   }
   const customChainMetadata = result.data as ChainMap<ChainMetadata>;
 
-  const registry = new GithubRegistry({
-    uri: config.registryUrl,
-    proxyUrl: PROXY_DEPLOYED_URL,
-  });
+  const registry =
+    runtimeRegistry ||
+    new GithubRegistry({
+      uri: config.registryUrl,
+      proxyUrl: PROXY_DEPLOYED_URL,
+    });
   let defaultChainMetadata = chainMetadata;
-  if (config.registryUrl) {
-    logger.debug('Using custom registry', config.registryUrl);
+  if (runtimeRegistry || config.registryUrl) {
+    logger.debug('Using custom registry', registry.getUri());
     defaultChainMetadata = await registry.getMetadata();
   } else {
     logger.debug('Using default published registry');
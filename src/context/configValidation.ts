@@ -0,0 +1,145 @@
+import { warpRouteConfigs } from '@hyperlane-xyz/registry';
+import { ChainMap, ChainMetadata, WarpCoreConfig } from '@hyperlane-xyz/sdk';
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { warpRouteWhitelist } from '../consts/warpRouteWhitelist';
+
+import { assembleChainMetadata } from './chains';
+import { assembleWarpCoreConfig } from './warpCoreConfig';
+
+export enum ConfigIssueType {
+  AssemblyError = 'assembly-error',
+  UnknownWhitelistId = 'unknown-whitelist-id',
+  MissingChainMetadata = 'missing-chain-metadata',
+  DanglingConnection = 'dangling-connection',
+  MissingMailbox = 'missing-mailbox',
+  MissingBech32Prefix = 'missing-bech32-prefix',
+  MissingNativeToken = 'missing-native-token',
+}
+
+export interface ConfigIssue {
+  type: ConfigIssueType;
+  message: string;
+  chainName?: ChainName;
+  routeId?: string;
+}
+
+export interface ConfigValidationReport {
+  chainCount: number;
+  tokenCount: number;
+  issues: ConfigIssue[];
+}
+
+type TokenConfig = WarpCoreConfig['tokens'][number];
+
+// Runs the same assembly as the app's startup and checks the result for issues
+// that would otherwise only surface at runtime, used by scripts/validate-config.ts
+export async function validateWarpConfig(): Promise<ConfigValidationReport> {
+  const report: ConfigValidationReport = { chainCount: 0, tokenCount: 0, issues: [] };
+
+  for (const routeId of warpRouteWhitelist || []) {
+    if (warpRouteConfigs[routeId]) continue;
+    report.issues.push({
+      type: ConfigIssueType.UnknownWhitelistId,
+      message: `Whitelisted warp route ${routeId} is not in the registry`,
+      routeId,
+    });
+  }
+
+  let chains: ChainMap<ChainMetadata>;
+  let tokens: TokenConfig[];
+  try {
+    chains = (await assembleChainMetadata()).chains;
+    tokens = (await assembleWarpCoreConfig()).tokens;
+  } catch (error: any) {
+    report.issues.push({
+      type: ConfigIssueType.AssemblyError,
+      message: error?.message || String(error),
+    });
+    return report;
+  }
+  report.chainCount = Object.keys(chains).length;
+  report.tokenCount = tokens.length;
+
+  for (const token of tokens) {
+    report.issues.push(...checkToken(token, tokens, chains));
+  }
+  const tokenChains = new Set(tokens.map((t) => t.chainName));
+  for (const chainName of tokenChains) {
+    if (chains[chainName]) report.issues.push(...checkChain(chains[chainName]));
+  }
+  return report;
+}
+
+function checkToken(
+  token: TokenConfig,
+  tokens: TokenConfig[],
+  chains: ChainMap<ChainMetadata>,
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const label = `${token.symbol} on ${token.chainName} (${token.addressOrDenom || 'native'})`;
+  if (!chains[token.chainName]) {
+    issues.push({
+      type: ConfigIssueType.MissingChainMetadata,
+      message: `Token ${label} has no chain metadata for ${token.chainName}`,
+      chainName: token.chainName,
+    });
+  }
+  for (const connection of token.connections || []) {
+    // Connection ids use format protocol|chainName|addressOrDenom
+    const [, chainName, addressOrDenom] = connection.token.split('|');
+    const isConnected = tokens.some(
+      (t) =>
+        t.chainName === chainName &&
+        t.addressOrDenom?.toLowerCase() === addressOrDenom?.toLowerCase(),
+    );
+    if (isConnected) continue;
+    issues.push({
+      type: ConfigIssueType.DanglingConnection,
+      message: `Token ${label} connects to ${connection.token} which is not configured`,
+      chainName: token.chainName,
+    });
+  }
+  return issues;
+}
+
+function checkChain(metadata: ChainMetadata & { mailbox?: Address }): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const { name: chainName, protocol } = metadata;
+  // SVM token adapters need the mailbox, see consts/chains.ts
+  if (protocol === ProtocolType.Sealevel && !metadata.mailbox) {
+    issues.push({
+      type: ConfigIssueType.MissingMailbox,
+      message: `Sealevel chain ${chainName} is missing a mailbox address`,
+      chainName,
+    });
+  }
+  // CosmosKit requires both, see getCosmosKitConfig
+  if (protocol === ProtocolType.Cosmos && !metadata.bech32Prefix) {
+    issues.push({
+      type: ConfigIssueType.MissingBech32Prefix,
+      message: `Cosmos chain ${chainName} is missing bech32Prefix`,
+      chainName,
+    });
+  }
+  if (protocol === ProtocolType.Cosmos && !metadata.nativeToken) {
+    issues.push({
+      type: ConfigIssueType.MissingNativeToken,
+      message: `Cosmos chain ${chainName} is missing nativeToken`,
+      chainName,
+    });
+  }
+  return issues;
+}
+
+export function formatValidationReport({
+  chainCount,
+  tokenCount,
+  issues,
+}: ConfigValidationReport): string {
+  const lines = [`Checked ${tokenCount} tokens on ${chainCount} chains`];
+  if (!issues.length) return [...lines, 'No issues found'].join('\n');
+  lines.push(`Found ${issues.length} issue(s):`);
+  for (const issue of issues) lines.push(`  [${issue.type}] ${issue.message}`);
+  return lines.join('\n');
+}
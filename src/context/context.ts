@@ -6,10 +6,15 @@ import {
   MultiProtocolProvider,
   Token,
   WarpCore,
+  WarpCoreConfig,
 } from '@hyperlane-xyz/sdk';
 import { isNullish } from '@hyperlane-xyz/utils';
 
+import { applyRpcOverrides } from '../features/chains/rpcOverrides';
+import { useStore } from '../features/store';
+
 import { assembleChainMetadata } from './chains';
+import { RegistrySource, createRegistry } from './registry';
 import { assembleWarpCoreConfig } from './warpCoreConfig';
 
 export interface WarpContext {
@@ -17,22 +22,29 @@ export interface WarpContext {
   chains: ChainMap<ChainMetadata>;
   multiProvider: MultiProtocolProvider;
   warpCore: WarpCore;
+  // The merged config the warp core was built from, shown on the debug page
+  coreConfig: WarpCoreConfig;
 }
 
 // Note: This was initially static so it was simpler to keep it out of a state store.
 // Now it's somewhat dynamic based on env vars. If more flexibility is needed, it could be moved.
+// It's rebuilt when the user switches registry, see WarpContext.tsx
 let warpContext: WarpContext;
 
 export function getWarpContext() {
   return warpContext;
 }
 
-export async function initWarpContext() {
-  const { registry, chains } = await assembleChainMetadata();
+// Called again with a new source to rebuild the context when the user switches registry
+export async function initWarpContext(source: RegistrySource | null) {
+  const runtimeRegistry = source ? await createRegistry(source) : undefined;
+  const assembled = await assembleChainMetadata(runtimeRegistry);
+  const { registry } = assembled;
+  const chains = applyRpcOverrides(assembled.chains, useStore.getState().rpcOverrides);
   const multiProvider = new MultiProtocolProvider(chains);
-  const coreConfig = await assembleWarpCoreConfig();
+  const coreConfig = await assembleWarpCoreConfig(runtimeRegistry);
   const warpCore = WarpCore.FromConfig(multiProvider, coreConfig);
-  warpContext = { registry, chains, multiProvider, warpCore };
+  warpContext = { registry, chains, multiProvider, warpCore, coreConfig };
   return warpContext;
 }
 
@@ -0,0 +1,68 @@
+import { GithubRegistry, IRegistry, PartialRegistry } from '@hyperlane-xyz/registry';
+import { ChainMap, ChainMetadata, WarpCoreConfig } from '@hyperlane-xyz/sdk';
+
+import { config } from '../consts/config';
+import { PROXY_DEPLOYED_URL } from '../consts/links';
+
+// A registry chosen at runtime in place of the one configured at build time
+// GitHub registries may use any branch, other URLs must serve a filesystem registry
+// export, see CUSTOMIZE.md
+export interface RegistrySource {
+  uri: string;
+  branch?: string;
+}
+
+export function isGithubRegistryUri(uri: string) {
+  try {
+    return new URL(uri).host === 'github.com';
+  } catch (error) {
+    return false;
+  }
+}
+
+export function isRegistryAllowed(source: RegistrySource) {
+  const uri = normalizeUri(source.uri).toLowerCase();
+  return config.registryAllowList.some((allowed) => normalizeUri(allowed).toLowerCase() === uri);
+}
+
+// Stable id of a source, used to key the warp context so it gets rebuilt on change
+export function getRegistrySourceKey(source: RegistrySource | null) {
+  if (!source) return 'default';
+  return source.branch ? `${source.uri}@${source.branch}` : source.uri;
+}
+
+export async function createRegistry(source: RegistrySource): Promise<IRegistry> {
+  if (!isRegistryAllowed(source)) throw new Error(`Registry ${source.uri} is not allowed`);
+  if (isGithubRegistryUri(source.uri)) {
+    return new GithubRegistry({
+      uri: source.uri,
+      branch: source.branch || undefined,
+      proxyUrl: PROXY_DEPLOYED_URL,
+    });
+  }
+  return createHttpRegistry(normalizeUri(source.uri));
+}
+
+// Plain HTTP servers can't list directories so the registry is read from json exports
+async function createHttpRegistry(uri: string): Promise<IRegistry> {
+  const [chainMetadata, chainAddresses, warpRoutes] = await Promise.all([
+    fetchRegistryJson<ChainMap<ChainMetadata>>(`${uri}/chains.json`),
+    fetchRegistryJson<ChainMap<Record<string, string>>>(`${uri}/addresses.json`),
+    fetchRegistryJson<Record<string, WarpCoreConfig>>(`${uri}/warp-routes.json`),
+  ]);
+  return new PartialRegistry({
+    chainMetadata,
+    chainAddresses,
+    warpRoutes: Object.values(warpRoutes),
+  });
+}
+
+async function fetchRegistryJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Registry request to ${url} failed: ${res.status}`);
+  return res.json();
+}
+
+function normalizeUri(uri: string) {
+  return uri.trim().replace(/\/+$/, '');
+}
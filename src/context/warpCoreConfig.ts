@@ -1,26 +1,57 @@
-import { warpRouteConfigs } from '@hyperlane-xyz/registry';
+import { IRegistry, warpRouteConfigs } from '@hyperlane-xyz/registry';
 import { WarpCoreConfig, WarpCoreConfigSchema } from '@hyperlane-xyz/sdk';
 import { objFilter, objMerge } from '@hyperlane-xyz/utils';
 
+import { config } from '../consts/config.ts';
 import { warpRouteWhitelist } from '../consts/warpRouteWhitelist.ts';
 import { warpRouteConfigs as WarpRoutesTs } from '../consts/warpRoutes.ts';
 import WarpRoutesYaml from '../consts/warpRoutes.yaml';
+import { logger } from '../utils/logger.ts';
 import { validateZodResult } from '../utils/zod.ts';
 
-export function assembleWarpCoreConfig(): WarpCoreConfig {
+type TokenConfig = WarpCoreConfig['tokens'][number];
+
+enum WarpTokenSource {
+  Registry = 'registry',
+  TypeScript = 'typescript config',
+  Yaml = 'yaml config',
+}
+
+interface TokenConfigConflict {
+  tokenId: string;
+  field: string;
+  values: Array<{ source: WarpTokenSource; value: unknown }>;
+  // Source of the value that was kept, null if nested objects were merged into a new value
+  chosenSource: WarpTokenSource | null;
+  isCritical: boolean;
+}
+
+// Fields where a wrong value breaks amounts or adapters rather than just the display
+const CRITICAL_TOKEN_FIELDS = ['decimals', 'standard'];
+
+// Routes of a runtime registry replace the published ones, custom routes are still added
+export async function assembleWarpCoreConfig(runtimeRegistry?: IRegistry): Promise<WarpCoreConfig> {
   const resultYaml = WarpCoreConfigSchema.safeParse(WarpRoutesYaml);
   const configYaml = validateZodResult(resultYaml, 'warp core yaml config');
   const resultTs = WarpCoreConfigSchema.safeParse(WarpRoutesTs);
   const configTs = validateZodResult(resultTs, 'warp core typescript config');
 
-  const filteredWarpRouteConfigs = warpRouteWhitelist
-    ? filterToIds(warpRouteConfigs, warpRouteWhitelist)
+  const registryConfigs = runtimeRegistry
+    ? await runtimeRegistry.getWarpRoutes()
     : warpRouteConfigs;
+  const filteredWarpRouteConfigs = warpRouteWhitelist
+    ? filterToIds(registryConfigs, warpRouteWhitelist)
+    : registryConfigs;
 
   const configValues = Object.values(filteredWarpRouteConfigs);
 
   const configTokens = configValues.map((c) => c.tokens).flat();
-  const tokens = dedupeTokens([...configTokens, ...configTs.tokens, ...configYaml.tokens]);
+  const { tokens, conflicts } = dedupeTokens([
+    ...withSource(configTokens, WarpTokenSource.Registry),
+    ...withSource(configTs.tokens, WarpTokenSource.TypeScript),
+    ...withSource(configYaml.tokens, WarpTokenSource.Yaml),
+  ]);
+  checkTokenConflicts(conflicts);
 
   if (!tokens.length)
     throw new Error(
@@ -47,13 +78,72 @@ function filterToIds(
   return objFilter(config, (id, c): c is WarpCoreConfig => idWhitelist.includes(id));
 }
 
+function withSource(tokens: TokenConfig[], source: WarpTokenSource) {
+  return tokens.map((token) => ({ token, source }));
+}
+
 // Separate warp configs may contain duplicate definitions of the same token.
 // E.g. an IBC token that gets used for interchain gas in many different routes.
-function dedupeTokens(tokens: WarpCoreConfig['tokens']): WarpCoreConfig['tokens'] {
-  const idToToken: Record<string, WarpCoreConfig['tokens'][number]> = {};
-  for (const token of tokens) {
-    const id = `${token.chainName}|${token.addressOrDenom?.toLowerCase()}`;
-    idToToken[id] = objMerge(idToToken[id] || {}, token);
+// Later definitions win, so local configs override the registry.
+function dedupeTokens(tokens: Array<{ token: TokenConfig; source: WarpTokenSource }>) {
+  const idToTokens: Record<string, typeof tokens> = {};
+  for (const t of tokens) {
+    const id = `${t.token.chainName}|${t.token.addressOrDenom?.toLowerCase()}`;
+    idToTokens[id] = [...(idToTokens[id] || []), t];
+  }
+  const conflicts: TokenConfigConflict[] = [];
+  const deduped = Object.entries(idToTokens).map(([id, definitions]) => {
+    const merged = definitions.reduce<TokenConfig>(
+      (acc, d) => objMerge(acc, d.token),
+      {} as TokenConfig,
+    );
+    conflicts.push(...findTokenConflicts(id, definitions, merged));
+    return merged;
+  });
+  return { tokens: deduped, conflicts };
+}
+
+function findTokenConflicts(
+  tokenId: string,
+  definitions: Array<{ token: TokenConfig; source: WarpTokenSource }>,
+  merged: TokenConfig,
+): TokenConfigConflict[] {
+  if (definitions.length < 2) return [];
+  const conflicts: TokenConfigConflict[] = [];
+  const fields = new Set(definitions.flatMap((d) => Object.keys(d.token)));
+  for (const field of fields) {
+    const values = definitions
+      .map((d) => ({ source: d.source, value: (d.token as Record<string, unknown>)[field] }))
+      .filter((v) => v.value !== undefined);
+    if (new Set(values.map((v) => JSON.stringify(v.value))).size < 2) continue;
+    const mergedValue = JSON.stringify((merged as Record<string, unknown>)[field]);
+    const chosen = values.filter((v) => JSON.stringify(v.value) === mergedValue).at(-1);
+    conflicts.push({
+      tokenId,
+      field,
+      values,
+      chosenSource: chosen?.source ?? null,
+      isCritical: CRITICAL_TOKEN_FIELDS.includes(field),
+    });
+  }
+  return conflicts;
+}
+
+// Logs every conflict, and in strict mode refuses to start on critical ones
+function checkTokenConflicts(conflicts: TokenConfigConflict[]) {
+  for (const { tokenId, field, values, chosenSource } of conflicts) {
+    const valueList = values.map((v) => `${v.source}=${JSON.stringify(v.value)}`).join(', ');
+    logger.debug(
+      `Conflicting ${field} for warp token ${tokenId}: ${valueList}, using ${
+        chosenSource || 'merged value'
+      }`,
+    );
   }
-  return Object.values(idToToken);
+  const critical = conflicts.filter((c) => c.isCritical);
+  if (!config.strictWarpConfig || !critical.length) return;
+  throw new Error(
+    `Conflicting warp token definitions: ${critical
+      .map((c) => `${c.field} of ${c.tokenId}`)
+      .join(', ')}. Please fix the token configs or disable strict warp config mode.`,
+  );
 }
@@ -0,0 +1,222 @@
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { SolidButton } from '../../components/buttons/SolidButton';
+import { TextInput } from '../../components/input/TextField';
+import { Modal } from '../../components/layout/Modal';
+import { getWarpCore } from '../../context/context';
+import { tryReadFileAsText } from '../../utils/file';
+import { logger } from '../../utils/logger';
+import { getChainDisplayName, tryGetChainProtocol } from '../chains/utils';
+import { useStore } from '../store';
+
+import {
+  AddressBookEntry,
+  exportAddressBook,
+  parseAddressBook,
+  validateAddressBookEntry,
+} from './addressBook';
+
+const protocolLabels: Record<ProtocolType, string> = {
+  [ProtocolType.Ethereum]: 'EVM',
+  [ProtocolType.Sealevel]: 'Solana VM',
+  [ProtocolType.Cosmos]: 'Cosmos',
+};
+
+// Scopes are encoded as protocol:<protocol> or chain:<chainName> in the select
+function toScope({ protocol, chainName }: { protocol?: ProtocolType; chainName?: ChainName }) {
+  return chainName ? `chain:${chainName}` : `protocol:${protocol || ProtocolType.Ethereum}`;
+}
+
+function fromScope(scope: string): { protocol?: ProtocolType; chainName?: ChainName } {
+  const [type, value] = scope.split(':');
+  if (type === 'chain') return { protocol: tryGetChainProtocol(value), chainName: value };
+  return { protocol: value as ProtocolType };
+}
+
+export function getEntryScopeLabel({ protocol, chainName }: AddressBookEntry) {
+  return chainName ? getChainDisplayName(chainName) : `Any ${protocolLabels[protocol]} chain`;
+}
+
+// Lists, adds, removes, imports and exports saved recipients
+export function AddressBookModal({
+  isOpen,
+  close,
+  initialEntry,
+}: {
+  isOpen: boolean;
+  close: () => void;
+  initialEntry?: { address: Address; chainName: ChainName };
+}) {
+  const { addressBook, addAddressBookEntry, removeAddressBookEntry } = useStore((s) => ({
+    addressBook: s.addressBook,
+    addAddressBookEntry: s.addAddressBookEntry,
+    removeAddressBookEntry: s.removeAddressBookEntry,
+  }));
+  const chains = useMemo(
+    () =>
+      [...getWarpCore().getTokenChains()].sort((a, b) =>
+        getChainDisplayName(a).localeCompare(getChainDisplayName(b)),
+      ),
+    [],
+  );
+  const [label, setLabel] = useState('');
+  const [address, setAddress] = useState('');
+  const [scope, setScope] = useState(toScope({}));
+
+  // Prefill when opened from the new recipient warning
+  const initialAddress = initialEntry?.address;
+  const initialChain = initialEntry?.chainName;
+  useEffect(() => {
+    if (!isOpen || !initialAddress || !initialChain) return;
+    setAddress(initialAddress);
+    setScope(toScope({ chainName: initialChain }));
+  }, [isOpen, initialAddress, initialChain]);
+
+  const onAdd = () => {
+    const { protocol, chainName } = fromScope(scope);
+    if (!protocol) return;
+    const entry = { label: label.trim(), address: address.trim(), protocol, chainName };
+    const error = validateAddressBookEntry(entry);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    addAddressBookEntry(entry);
+    toast.success(`Saved ${entry.label} to the address book`);
+    setLabel('');
+    setAddress('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} title="Address book" close={close} width="max-w-lg">
+      <div className="mt-3 flex flex-col text-sm">
+        <div className="flex gap-2">
+          <TextInput
+            name="addressBookLabel"
+            value={label}
+            onChange={setLabel}
+            placeholder="Label"
+            classes="w-1/3"
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="mt-1.5 w-2/3 rounded-lg border border-primary-300 px-2 outline-none focus:border-primary-500"
+          >
+            {Object.values(ProtocolType).map((p) => (
+              <option key={p} value={toScope({ protocol: p })}>
+                {`Any ${protocolLabels[p]} chain`}
+              </option>
+            ))}
+            {chains.map((c) => (
+              <option key={c} value={toScope({ chainName: c })}>
+                {getChainDisplayName(c)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <TextInput
+          name="addressBookAddress"
+          value={address}
+          onChange={setAddress}
+          placeholder="Address"
+        />
+        <SolidButton
+          type="button"
+          color="accent"
+          onClick={onAdd}
+          disabled={!label.trim() || !address.trim()}
+          classes="mt-3 px-3 py-1.5"
+        >
+          Save recipient
+        </SolidButton>
+        <div className="mt-4 max-h-72 space-y-1.5 overflow-y-auto">
+          {addressBook.map((entry, i) => (
+            <div key={i} className="flex items-center justify-between gap-2 text-xs">
+              <div className="flex min-w-0 flex-col">
+                <span className="font-medium">{entry.label}</span>
+                <span className="truncate text-gray-500">{entry.address}</span>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <span className="text-gray-500">{getEntryScopeLabel(entry)}</span>
+                <button
+                  type="button"
+                  className="text-red-600 hover:opacity-80"
+                  onClick={() => removeAddressBookEntry(i)}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          {!addressBook.length && <div className="text-xs text-gray-500">No saved recipients</div>}
+        </div>
+        <AddressBookActions entries={addressBook} />
+      </div>
+    </Modal>
+  );
+}
+
+function AddressBookActions({ entries }: { entries: AddressBookEntry[] }) {
+  const importAddressBook = useStore((s) => s.importAddressBook);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const onSelectFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be selected again
+    e.target.value = '';
+    if (!file) return;
+    const content = await tryReadFileAsText(file);
+    if (!content) {
+      toast.error('Unable to read address book file');
+      return;
+    }
+    try {
+      const numImported = importAddressBook(parseAddressBook(content));
+      toast.success(`Imported ${numImported} new recipient${numImported === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      logger.warn('Error importing address book', error);
+      toast.error(error?.message || 'Invalid address book file');
+    }
+  };
+
+  return (
+    <div className="mt-4 flex justify-end gap-3 text-xs">
+      {entries.length > 0 && (
+        <>
+          <button
+            type="button"
+            className="text-primary-500 hover:opacity-80"
+            onClick={() => exportAddressBook(entries, 'csv')}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className="text-primary-500 hover:opacity-80"
+            onClick={() => exportAddressBook(entries, 'json')}
+          >
+            Export JSON
+          </button>
+        </>
+      )}
+      <button
+        type="button"
+        className="text-primary-500 hover:opacity-80"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={onSelectFile}
+      />
+    </div>
+  );
+}
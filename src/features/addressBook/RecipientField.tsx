@@ -0,0 +1,92 @@
+import { useFormikContext } from 'formik';
+import { useState } from 'react';
+
+import { isValidAddress } from '@hyperlane-xyz/utils';
+
+import { TextField } from '../../components/input/TextField';
+import { tryGetChainProtocol } from '../chains/utils';
+import { useStore } from '../store';
+import { TransferFormValues } from '../transfer/types';
+import { useAccountAddressForChain } from '../wallet/hooks/multiProtocol';
+
+import { AddressBookModal, getEntryScopeLabel } from './AddressBookModal';
+import { findAddressBookEntry, getEntriesForChain, isSameAddress } from './addressBook';
+
+const MAX_SUGGESTIONS = 6;
+
+// Recipient input that suggests saved addresses for the destination chain
+export function RecipientField({ disabled }: { disabled?: boolean }) {
+  const { values, setFieldValue } = useFormikContext<TransferFormValues>();
+  const addressBook = useStore((s) => s.addressBook);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = values.recipient.trim().toLowerCase();
+  const suggestions = getEntriesForChain(addressBook, values.destination)
+    .filter(
+      (e) =>
+        !query || e.label.toLowerCase().includes(query) || e.address.toLowerCase().includes(query),
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const isExactMatch = suggestions.length === 1 && suggestions[0].address === values.recipient;
+
+  return (
+    <div onFocus={() => setIsFocused(true)} onBlur={() => setIsFocused(false)}>
+      <TextField name="recipient" placeholder="0x123456..." classes="w-full" disabled={disabled} />
+      {isFocused && !disabled && suggestions.length > 0 && !isExactMatch && (
+        <div className="absolute left-0 right-0 z-20 mt-1 rounded-lg border border-gray-200 bg-white py-1 shadow-md">
+          {suggestions.map((entry, i) => (
+            <button
+              key={i}
+              type="button"
+              // Mouse down fires before the input blurs and hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                setFieldValue('recipient', entry.address);
+                setIsFocused(false);
+              }}
+              className="flex w-full flex-col px-3 py-1.5 text-left text-xs hover:bg-gray-100"
+            >
+              <span className="font-medium">{`${entry.label} · ${getEntryScopeLabel(entry)}`}</span>
+              <span className="w-full truncate text-gray-500">{entry.address}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Shown for valid recipients that aren't in the address book or the user's own account
+export function NewRecipientWarning() {
+  const { values } = useFormikContext<TransferFormValues>();
+  const { recipient, destination } = values;
+  const addressBook = useStore((s) => s.addressBook);
+  const ownAddress = useAccountAddressForChain(destination);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const protocol = tryGetChainProtocol(destination);
+  const address = recipient.trim();
+  if (!protocol || !address || !isValidAddress(address, protocol)) return null;
+  const entry = findAddressBookEntry(addressBook, address, destination);
+  if (entry)
+    return <div className="mt-1 pl-0.5 text-xs text-gray-600">{`Recipient: ${entry.label}`}</div>;
+  if (ownAddress && isSameAddress(ownAddress, address, protocol)) return null;
+
+  return (
+    <div className="mt-1 flex justify-between pl-0.5 text-xs text-amber-600">
+      <span>New recipient, this address is not in your address book</span>
+      <button
+        type="button"
+        className="text-primary-500 hover:opacity-80"
+        onClick={() => setIsModalOpen(true)}
+      >
+        Save
+      </button>
+      <AddressBookModal
+        isOpen={isModalOpen}
+        close={() => setIsModalOpen(false)}
+        initialEntry={{ address, chainName: destination }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+
+import { ProtocolType, isValidAddress } from '@hyperlane-xyz/utils';
+
+import { downloadFile, parseCsv, toCsv } from '../../utils/file';
+import { logger } from '../../utils/logger';
+import { tryGetChainMetadata, tryGetChainProtocol } from '../chains/utils';
+
+// Increment this when the export format has breaking changes
+export const ADDRESS_BOOK_VERSION = 1;
+
+export interface AddressBookEntry {
+  label: string;
+  address: Address;
+  protocol: ProtocolType;
+  // Entries without a chain apply to every chain of their protocol
+  chainName?: ChainName;
+}
+
+const AddressBookEntrySchema = z.object({
+  label: z.string().trim().min(1),
+  address: z.string().trim().min(1),
+  protocol: z.nativeEnum(ProtocolType),
+  chainName: z.string().optional(),
+});
+
+const AddressBookSchema = z.object({
+  version: z.literal(ADDRESS_BOOK_VERSION),
+  entries: z.array(AddressBookEntrySchema),
+});
+
+const CSV_COLUMNS = ['label', 'address', 'protocol', 'chainName'] as const;
+
+// Returns an error message if the entry can't be used as a recipient
+export function validateAddressBookEntry({
+  label,
+  address,
+  protocol,
+  chainName,
+}: AddressBookEntry) {
+  if (!label.trim()) return 'Label is required';
+  if (chainName) {
+    if (!tryGetChainMetadata(chainName)) return `Unknown chain ${chainName}`;
+    if (tryGetChainProtocol(chainName) !== protocol)
+      return `${chainName} is not a ${protocol} chain`;
+  }
+  if (!isValidAddress(address, protocol)) return `Invalid ${protocol} address`;
+  return null;
+}
+
+// Bech32 and base58 addresses are case sensitive, hex ones are not
+export function isSameAddress(a: Address, b: Address, protocol?: ProtocolType | null) {
+  if (protocol === ProtocolType.Ethereum) return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+// Entries that can be used as recipient on the chain
+export function getEntriesForChain(entries: AddressBookEntry[], chainName: ChainName) {
+  const protocol = tryGetChainProtocol(chainName);
+  return entries.filter((e) =>
+    e.chainName ? e.chainName === chainName : !!protocol && e.protocol === protocol,
+  );
+}
+
+export function findAddressBookEntry(
+  entries: AddressBookEntry[],
+  address: Address,
+  chainName: ChainName,
+) {
+  const protocol = tryGetChainProtocol(chainName);
+  return getEntriesForChain(entries, chainName).find((e) =>
+    isSameAddress(e.address, address.trim(), protocol),
+  );
+}
+
+// Returns the entries from the imported list that aren't already in the book
+export function getNewEntries(existing: AddressBookEntry[], imported: AddressBookEntry[]) {
+  const newEntries: AddressBookEntry[] = [];
+  for (const entry of imported) {
+    const isKnown = [...existing, ...newEntries].some(
+      (e) =>
+        e.protocol === entry.protocol &&
+        e.chainName === entry.chainName &&
+        isSameAddress(e.address, entry.address, entry.protocol),
+    );
+    if (!isKnown) newEntries.push(entry);
+  }
+  return newEntries;
+}
+
+export function exportAddressBook(entries: AddressBookEntry[], format: 'csv' | 'json') {
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'csv') {
+    const csv = toCsv(
+      [...CSV_COLUMNS],
+      entries.map((e) => CSV_COLUMNS.map((c) => e[c])),
+    );
+    downloadFile(`address-book-${date}.csv`, csv, 'text/csv');
+  } else {
+    const json = JSON.stringify({ version: ADDRESS_BOOK_VERSION, entries }, null, 2);
+    downloadFile(`address-book-${date}.json`, json, 'application/json');
+  }
+}
+
+// Parses an exported address book file (JSON or CSV)
+// Throws if the content is not a valid export or contains invalid entries
+export function parseAddressBook(content: string): AddressBookEntry[] {
+  const trimmed = content.trim();
+  const entries = trimmed.startsWith('{')
+    ? parseJsonAddressBook(trimmed)
+    : parseCsvAddressBook(trimmed);
+  entries.forEach((entry, i) => {
+    const error = validateAddressBookEntry(entry);
+    if (error) throw new Error(`Invalid address book entry ${i + 1}: ${error}`);
+  });
+  return entries;
+}
+
+function parseJsonAddressBook(content: string): AddressBookEntry[] {
+  const result = AddressBookSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    logger.warn('Invalid address book file', result.error);
+    throw new Error('Invalid address book file');
+  }
+  return result.data.entries;
+}
+
+function parseCsvAddressBook(content: string): AddressBookEntry[] {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers || !['label', 'address', 'protocol'].every((c) => headers.includes(c)))
+    throw new Error('Invalid address book file, missing required columns');
+  return rows.map((row, i) => {
+    const values = headers.reduce<Record<string, string>>((acc, header, j) => {
+      if (row[j]) acc[header] = row[j];
+      return acc;
+    }, {});
+    const result = AddressBookEntrySchema.safeParse(values);
+    if (!result.success) {
+      logger.warn(`Invalid address book row ${i + 1}`, result.error);
+      throw new Error(`Invalid address book row ${i + 1}`);
+    }
+    return result.data;
+  });
+}
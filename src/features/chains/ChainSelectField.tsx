@@ -4,6 +4,7 @@ import { useState } from 'react';
 
 import { ChainLogo } from '../../components/icons/ChainLogo';
 import ChevronIcon from '../../images/icons/chevron-down.svg';
+import { getRouteBlockReason } from '../routes/routePolicy';
 import { TransferFormValues } from '../transfer/types';
 
 import { ChainSelectListModal } from './ChainSelectModal';
@@ -19,7 +20,7 @@ type Props = {
 
 export function ChainSelectField({ name, label, chains, onChange, disabled }: Props) {
   const [field, , helpers] = useField<ChainName>(name);
-  const { setFieldValue } = useFormikContext<TransferFormValues>();
+  const { values, setFieldValue } = useFormikContext<TransferFormValues>();
 
   const handleChange = (newChainId: ChainName) => {
     helpers.setValue(newChainId);
@@ -36,6 +37,13 @@ export function ChainSelectField({ name, label, chains, onChange, disabled }: Pr
     if (!disabled) setIsModalOpen(true);
   };
 
+  // Disable chains for which the route to/from the other selected chain is blocked
+  const getDisabledReason = (chain: ChainName) => {
+    if (name === 'origin') return getRouteBlockReason(chain, values.destination);
+    if (name === 'destination') return getRouteBlockReason(values.origin, chain);
+    return null;
+  };
+
   return (
     <div className="flex-[4]">
       <button
@@ -62,6 +70,7 @@ export function ChainSelectField({ name, label, chains, onChange, disabled }: Pr
         close={() => setIsModalOpen(false)}
         chains={chains}
         onSelect={handleChange}
+        getDisabledReason={getDisabledReason}
       />
     </div>
   );
@@ -10,11 +10,13 @@ export function ChainSelectListModal({
   close,
   chains,
   onSelect,
+  getDisabledReason,
 }: {
   isOpen: boolean;
   close: () => void;
   chains: ChainName[];
   onSelect: (chain: ChainName) => void;
+  getDisabledReason?: (chain: ChainName) => string | null;
 }) {
   const onSelectChain = (chain: ChainName) => {
     return () => {
@@ -28,16 +30,30 @@ export function ChainSelectListModal({
   return (
     <Modal isOpen={isOpen} title="Select Chain" close={close}>
       <div className="mt-2 flex flex-col space-y-1">
-        {sortedChains.map((c) => (
-          <button
-            key={c}
-            className="flex items-center rounded px-2 py-1.5 text-sm transition-all duration-200 hover:bg-gray-100 active:bg-gray-200"
-            onClick={onSelectChain(c)}
-          >
-            <ChainLogo chainName={c} size={16} background={false} />
-            <span className="ml-2">{getChainDisplayName(c, true)}</span>
-          </button>
-        ))}
+        {sortedChains.map((c) => {
+          const disabledReason = getDisabledReason?.(c);
+          return (
+            <button
+              key={c}
+              className={`flex items-center rounded px-2 py-1.5 text-sm transition-all duration-200 ${
+                disabledReason
+                  ? 'cursor-default opacity-50'
+                  : 'hover:bg-gray-100 active:bg-gray-200'
+              }`}
+              disabled={!!disabledReason}
+              title={disabledReason || undefined}
+              onClick={onSelectChain(c)}
+            >
+              <ChainLogo chainName={c} size={16} background={false} />
+              <span className="ml-2">{getChainDisplayName(c, true)}</span>
+              {disabledReason && (
+                <span className="ml-auto truncate pl-2 text-xs text-gray-500">
+                  {disabledReason}
+                </span>
+              )}
+            </button>
+          );
+        })}
       </div>
     </Modal>
   );
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+
+import { getMultiProvider } from '../../context/context';
+import { useStore } from '../store';
+
+import { RpcSettingsModal } from './RpcSettingsModal';
+import { RpcUrlHealth } from './rpcHealth';
+import { getChainDisplayName } from './utils';
+
+// Per chain status of the RPCs probed by the health monitor
+export function RpcDiagnosticsPanel() {
+  const rpcHealth = useStore((s) => s.rpcHealth);
+  const [expandedChain, setExpandedChain] = useState<ChainName | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const chains = Object.keys(rpcHealth).sort();
+
+  return (
+    <div className="rounded border border-gray-300 px-2.5 py-2 text-xs">
+      <div className="flex justify-between">
+        <span className="font-medium text-gray-800">RPC status</span>
+        <button
+          type="button"
+          className="text-primary-500 hover:opacity-80"
+          onClick={() => setIsSettingsOpen(true)}
+        >
+          Settings
+        </button>
+      </div>
+      <RpcSettingsModal isOpen={isSettingsOpen} close={() => setIsSettingsOpen(false)} />
+      {!chains.length && <div className="mt-1.5 text-gray-500">Checking...</div>}
+      <div className="mt-1.5 space-y-1">
+        {chains.map((chain) => {
+          const health = rpcHealth[chain];
+          // The monitor moves the active RPC to the front of the metadata urls
+          const activeUrl = getMultiProvider().tryGetChainMetadata(chain)?.rpcUrls[0]?.http;
+          const active = health.find((h) => h.url === activeUrl) || health[0];
+          const isExpanded = expandedChain === chain;
+          return (
+            <div key={chain}>
+              <button
+                type="button"
+                className="flex w-full justify-between hover:opacity-80"
+                onClick={() => setExpandedChain(isExpanded ? null : chain)}
+              >
+                <span className="text-gray-600">{getChainDisplayName(chain)}</span>
+                <RpcStatus health={active} />
+              </button>
+              {isExpanded && (
+                <div className="ml-1.5 mt-1 space-y-0.5 border-l border-gray-300 pl-2">
+                  {health.map((h) => (
+                    <div key={h.url} className="flex justify-between gap-2" title={h.lastError}>
+                      <span className={`truncate ${h.url === active.url ? 'font-medium' : ''}`}>
+                        {getUrlHost(h.url)}
+                      </span>
+                      <RpcStatus health={h} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function RpcStatus({ health }: { health: RpcUrlHealth }) {
+  if (!health.isHealthy) return <span className="shrink-0 text-red-600">Down</span>;
+  if (health.latency === undefined) return <span className="text-gray-500">Checking...</span>;
+  return <span className="shrink-0 text-green-600">{`${health.latency} ms`}</span>;
+}
+
+// RPC urls often embed API keys in their path, so only the host is shown
+function getUrlHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+}
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+
+import { SolidButton } from '../../components/buttons/SolidButton';
+import { TextInput } from '../../components/input/TextField';
+import { Modal } from '../../components/layout/Modal';
+import { getWarpContext } from '../../context/context';
+import { useStore } from '../store';
+
+import { removeRpcOverride, setRpcOverride } from './rpcOverrides';
+import { getChainDisplayName } from './utils';
+
+// Lets users point any chain at their own RPC node
+export function RpcSettingsModal({ isOpen, close }: { isOpen: boolean; close: () => void }) {
+  const rpcOverrides = useStore((s) => s.rpcOverrides);
+  const chains = useMemo(
+    () =>
+      Object.keys(getWarpContext().chains).sort((a, b) =>
+        getChainDisplayName(a).localeCompare(getChainDisplayName(b)),
+      ),
+    [],
+  );
+  const [chain, setChain] = useState<ChainName>(chains[0]);
+  const [url, setUrl] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const onSave = async () => {
+    if (isVerifying || !chain) return;
+    setIsVerifying(true);
+    const error = await setRpcOverride(chain, url.trim());
+    setIsVerifying(false);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    toast.success(`Using custom RPC for ${getChainDisplayName(chain)}`);
+    setUrl('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} title="RPC settings" close={close} width="max-w-md">
+      <div className="mt-3 flex flex-col text-sm">
+        <label htmlFor="rpcChain" className="pl-0.5 text-gray-600">
+          Chain
+        </label>
+        <select
+          id="rpcChain"
+          value={chain}
+          onChange={(e) => setChain(e.target.value)}
+          className="mt-1.5 rounded-lg border border-primary-300 px-2.5 py-2.5 outline-none focus:border-primary-500"
+        >
+          {chains.map((c) => (
+            <option key={c} value={c}>
+              {getChainDisplayName(c)}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="rpcUrl" className="mt-3 pl-0.5 text-gray-600">
+          RPC URL
+        </label>
+        <TextInput
+          id="rpcUrl"
+          name="rpcUrl"
+          value={url}
+          onChange={setUrl}
+          placeholder="https://my-node.example.com"
+        />
+        <SolidButton
+          type="button"
+          color="accent"
+          onClick={onSave}
+          disabled={!url.trim() || isVerifying}
+          classes="mt-3 px-3 py-1.5"
+        >
+          {isVerifying ? 'Verifying...' : 'Verify and save'}
+        </SolidButton>
+        {Object.keys(rpcOverrides).length > 0 && (
+          <div className="mt-4 space-y-1.5">
+            <h3 className="text-gray-600">Custom RPCs</h3>
+            {Object.entries(rpcOverrides).map(([c, overrideUrl]) => (
+              <div key={c} className="flex items-center justify-between gap-2 text-xs">
+                <span className="shrink-0">{getChainDisplayName(c)}</span>
+                <span className="truncate text-gray-500">{overrideUrl}</span>
+                <button
+                  type="button"
+                  className="shrink-0 text-red-600 hover:opacity-80"
+                  onClick={() => removeRpcOverride(c)}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <p className="pt-1 text-xs text-gray-500">
+              Wallet connections pick up RPC changes after the page is reloaded.
+            </p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
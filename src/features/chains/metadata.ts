@@ -9,6 +9,7 @@ import { getTokens, getWarpContext } from '../../context/context';
 import { cosmosDefaultChain } from './cosmosDefault';
 
 // Metadata formatted for use in Wagmi config
+// The warp context chains already include user RPC overrides, see applyRpcOverrides
 export function getWagmiChainConfig(): WagmiChain[] {
   const evmChains = Object.values(getWarpContext().chains).filter(
     (c) => !c.protocol || c.protocol === ProtocolType.Ethereum,
@@ -0,0 +1,160 @@
+import { ProviderType, TypedProvider, defaultProviderBuilderMap } from '@hyperlane-xyz/sdk';
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { getMultiProvider, getWarpCore } from '../../context/context';
+import { fetchJsonRpc } from '../../utils/jsonRpc';
+import { logger } from '../../utils/logger';
+import { useStore } from '../store';
+
+const CHECK_INTERVAL = 60_000; // 1m
+const PROBE_TIMEOUT = 5_000; // 5s
+// Weight of the latest latency sample in the moving average
+const LATENCY_SMOOTHING = 0.3;
+// A healthy primary RPC is only replaced by one at least this many times faster
+const FAILOVER_SPEEDUP = 2;
+
+export interface RpcUrlHealth {
+  url: string;
+  // Moving average in ms, undefined until a probe succeeds
+  latency?: number;
+  successCount: number;
+  errorCount: number;
+  lastError?: string;
+  lastCheckedAt?: number;
+  isHealthy: boolean;
+}
+
+// A cheap JSON-RPC call per protocol, the Cosmos one is served by CometBFT RPCs
+const PROBE_METHODS: Record<ProtocolType, string> = {
+  [ProtocolType.Ethereum]: 'eth_blockNumber',
+  [ProtocolType.Sealevel]: 'getSlot',
+  [ProtocolType.Cosmos]: 'status',
+};
+
+const PROVIDER_TYPES: Record<ProtocolType, ProviderType[]> = {
+  [ProtocolType.Ethereum]: [ProviderType.EthersV5, ProviderType.Viem],
+  [ProtocolType.Sealevel]: [ProviderType.SolanaWeb3],
+  [ProtocolType.Cosmos]: [ProviderType.CosmJs, ProviderType.CosmJsWasm],
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let isChecking = false;
+
+// Probes the RPCs of all chains with tokens and fails over to the best ranked one
+// Runs outside of React like the explorer worker, returns a stop function
+export function startRpcHealthMonitor() {
+  if (!timer) {
+    logger.debug('Starting RPC health monitor');
+    const check = () =>
+      checkAllChains().catch((error) => logger.warn('RPC health monitor error', error));
+    check();
+    timer = setInterval(check, CHECK_INTERVAL);
+  }
+  return stopRpcHealthMonitor;
+}
+
+export function stopRpcHealthMonitor() {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+// Healthy URLs first, fastest first, unhealthy ones by fewest errors
+export function rankRpcUrls(health: RpcUrlHealth[]): RpcUrlHealth[] {
+  return [...health].sort((a, b) => {
+    if (a.isHealthy !== b.isHealthy) return a.isHealthy ? -1 : 1;
+    if (a.isHealthy) return (a.latency ?? Infinity) - (b.latency ?? Infinity);
+    return a.errorCount - b.errorCount;
+  });
+}
+
+// The registry includes many chains the app never uses, so only token chains are probed
+async function checkAllChains() {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    const chains = getWarpCore().getTokenChains();
+    await Promise.all(chains.map((chain) => checkChain(chain)));
+  } finally {
+    isChecking = false;
+  }
+}
+
+async function checkChain(chain: ChainName) {
+  const metadata = getMultiProvider().tryGetChainMetadata(chain);
+  if (!metadata?.rpcUrls.length) return;
+  const previous = useStore.getState().rpcHealth[chain] || [];
+  const health = await Promise.all(
+    metadata.rpcUrls.map(({ http }) =>
+      probeRpcUrl(
+        http,
+        metadata.protocol,
+        previous.find((h) => h.url === http),
+      ),
+    ),
+  );
+  useStore.getState().setRpcHealth(chain, health);
+  maybeFailOver(chain, health);
+}
+
+async function probeRpcUrl(
+  url: string,
+  protocol: ProtocolType,
+  previous?: RpcUrlHealth,
+): Promise<RpcUrlHealth> {
+  const health: RpcUrlHealth = previous
+    ? { ...previous }
+    : { url, successCount: 0, errorCount: 0, isHealthy: true };
+  const start = Date.now();
+  try {
+    await fetchJsonRpc(url, PROBE_METHODS[protocol], [], PROBE_TIMEOUT);
+    const latency = Date.now() - start;
+    health.latency =
+      health.latency === undefined
+        ? latency
+        : Math.round(LATENCY_SMOOTHING * latency + (1 - LATENCY_SMOOTHING) * health.latency);
+    health.successCount++;
+    health.isHealthy = true;
+    health.lastError = undefined;
+  } catch (error: any) {
+    health.errorCount++;
+    health.isHealthy = false;
+    health.lastError = error?.message || String(error);
+  }
+  health.lastCheckedAt = Date.now();
+  return health;
+}
+
+function maybeFailOver(chain: ChainName, health: RpcUrlHealth[]) {
+  const multiProvider = getMultiProvider();
+  const metadata = multiProvider.getChainMetadata(chain);
+  const [best] = rankRpcUrls(health);
+  const primary = health.find((h) => h.url === metadata.rpcUrls[0].http);
+  if (!best?.isHealthy || !primary || best.url === primary.url) return;
+  const isPrimaryMuchSlower =
+    primary.latency !== undefined &&
+    best.latency !== undefined &&
+    primary.latency > best.latency * FAILOVER_SPEEDUP;
+  if (primary.isHealthy && !isPrimaryMuchSlower) return;
+
+  logger.debug(`Failing over ${chain} RPC from ${primary.url} to ${best.url}`);
+  // Providers are built from the first RPC url so the ranked order must be put in the metadata
+  const ranked = rankRpcUrls(health).map((h) => h.url);
+  metadata.rpcUrls.sort((a, b) => ranked.indexOf(a.http) - ranked.indexOf(b.http));
+  rebuildProviders(chain);
+}
+
+// Replaces cached providers so later calls use the new primary RPC
+export function rebuildProviders(chain: ChainName) {
+  const multiProvider = getMultiProvider();
+  const { protocol, rpcUrls, chainId } = multiProvider.getChainMetadata(chain);
+  for (const type of PROVIDER_TYPES[protocol]) {
+    try {
+      const builder = defaultProviderBuilderMap[type];
+      const provider = builder(rpcUrls, chainId) as TypedProvider['provider'];
+      multiProvider.setProvider(chain, { type, provider } as TypedProvider);
+    } catch (error) {
+      logger.warn(`Error rebuilding ${type} provider for ${chain}`, error);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { ChainMap, ChainMetadata } from '@hyperlane-xyz/sdk';
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { getMultiProvider } from '../../context/context';
+import { fetchJsonRpc } from '../../utils/jsonRpc';
+import { logger } from '../../utils/logger';
+import { isValidHttpUrl } from '../../utils/url';
+import { useStore } from '../store';
+
+import { rebuildProviders } from './rpcHealth';
+
+// Registry RPC urls of overridden chains, kept so an override can be removed without a reload
+const originalRpcUrls: ChainMap<ChainMetadata['rpcUrls']> = {};
+
+// Replaces the RPC urls of chains the user has set an override for
+// Called while assembling the warp context so every consumer of the metadata sees them
+export function applyRpcOverrides(chains: ChainMap<ChainMetadata>, overrides: ChainMap<string>) {
+  // The chains may come from a different registry than the previous warp context
+  for (const chain of Object.keys(originalRpcUrls)) delete originalRpcUrls[chain];
+  for (const [chain, url] of Object.entries(overrides)) {
+    if (!chains[chain]) continue;
+    originalRpcUrls[chain] ||= chains[chain].rpcUrls;
+    chains[chain] = { ...chains[chain], rpcUrls: [{ http: url }] };
+  }
+  return chains;
+}
+
+// Returns an error message if the url doesn't serve the chain described by the metadata
+export async function verifyRpcUrl(chain: ChainName, url: string): Promise<string | null> {
+  if (!isValidHttpUrl(url)) return 'Invalid URL';
+  const metadata = getMultiProvider().tryGetChainMetadata(chain);
+  if (!metadata) return `Unknown chain ${chain}`;
+  try {
+    if (metadata.protocol === ProtocolType.Ethereum) {
+      const chainId = parseInt(await fetchJsonRpc<string>(url, 'eth_chainId'), 16);
+      if (chainId !== Number(metadata.chainId)) return `RPC is for chain id ${chainId}`;
+    } else if (metadata.protocol === ProtocolType.Cosmos) {
+      const status = await fetchJsonRpc<{ node_info?: { network?: string } }>(url, 'status');
+      const network = status?.node_info?.network;
+      if (network !== metadata.chainId) return `RPC is for chain id ${network || 'unknown'}`;
+    } else if (metadata.protocol === ProtocolType.Sealevel) {
+      // Sealevel metadata has no genesis hash, so compare against a registry RPC
+      const referenceUrl = (originalRpcUrls[chain] || metadata.rpcUrls)[0]?.http;
+      const [genesis, expected] = await Promise.all([
+        fetchJsonRpc<string>(url, 'getGenesisHash'),
+        fetchJsonRpc<string>(referenceUrl, 'getGenesisHash'),
+      ]);
+      if (genesis !== expected) return 'RPC genesis hash does not match the chain';
+    }
+    return null;
+  } catch (error: any) {
+    logger.warn(`Error verifying RPC ${url} for ${chain}`, error);
+    return `RPC request failed: ${error?.message || 'unknown error'}`;
+  }
+}
+
+// Verifies and persists an override, then points the providers at it
+export async function setRpcOverride(chain: ChainName, url: string) {
+  const error = await verifyRpcUrl(chain, url);
+  if (error) return error;
+  useStore.getState().setRpcOverride(chain, url);
+  const metadata = getMultiProvider().getChainMetadata(chain);
+  originalRpcUrls[chain] ||= [...metadata.rpcUrls];
+  metadata.rpcUrls.splice(0, metadata.rpcUrls.length, { http: url });
+  rebuildProviders(chain);
+  return null;
+}
+
+export function removeRpcOverride(chain: ChainName) {
+  useStore.getState().removeRpcOverride(chain);
+  const original = originalRpcUrls[chain];
+  if (!original) return;
+  const metadata = getMultiProvider().getChainMetadata(chain);
+  metadata.rpcUrls.splice(0, metadata.rpcUrls.length, ...original);
+  delete originalRpcUrls[chain];
+  rebuildProviders(chain);
+}
@@ -0,0 +1,200 @@
+import { PropsWithChildren, useMemo, useState } from 'react';
+
+import { IToken } from '@hyperlane-xyz/sdk';
+
+import { SolidButton } from '../../components/buttons/SolidButton';
+import { TextInput } from '../../components/input/TextField';
+import { Card } from '../../components/layout/Card';
+import { getWarpContext } from '../../context/context';
+import { useStore } from '../store';
+import { getAccountAddressAndPubKey, useAccounts } from '../wallet/hooks/multiProtocol';
+
+import { useDebugProbes } from './probes';
+
+// Everything the app assembled at startup, for diagnosing route misconfigurations
+export function DebugPanel() {
+  const { registry, chains, coreConfig, warpCore } = getWarpContext();
+  const registrySource = useStore((s) => s.registrySource);
+  const [filter, setFilter] = useState('');
+
+  const query = filter.trim().toLowerCase();
+  const filteredChains = useMemo(
+    () =>
+      Object.values(chains)
+        .filter((c) => !query || c.name.toLowerCase().includes(query))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [chains, query],
+  );
+  const filteredTokens = useMemo(
+    () =>
+      warpCore.tokens
+        .map((token, index) => ({ token, index }))
+        .filter(
+          ({ token }) =>
+            !query ||
+            token.chainName.toLowerCase().includes(query) ||
+            token.symbol.toLowerCase().includes(query),
+        ),
+    [warpCore, query],
+  );
+
+  return (
+    <Card className="mx-auto w-full max-w-5xl space-y-4 text-xs">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-primary-500">Debug</h2>
+        <TextInput
+          value={filter}
+          onChange={setFilter}
+          placeholder="Filter by chain or symbol"
+          name="debugFilter"
+          classes="w-56"
+        />
+      </div>
+      <Section title="Registry">
+        <Row label="URI" value={registry.getUri()} />
+        <Row label="Runtime source" value={registrySource ? JSON.stringify(registrySource) : '-'} />
+      </Section>
+      <Section title={`Chains (${filteredChains.length})`}>
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1 pr-2">Name</th>
+                <th className="py-1 pr-2">Protocol</th>
+                <th className="py-1 pr-2">Chain id</th>
+                <th className="py-1 pr-2">Domain id</th>
+                <th className="py-1">RPCs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredChains.map((c) => (
+                <tr key={c.name} className="border-t border-gray-200 align-top">
+                  <td className="py-1 pr-2">{c.name}</td>
+                  <td className="py-1 pr-2">{c.protocol}</td>
+                  <td className="py-1 pr-2">{c.chainId}</td>
+                  <td className="py-1 pr-2">{c.domainId}</td>
+                  <td className="break-all py-1">{c.rpcUrls.map((r) => r.http).join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Section>
+      <Section title={`Tokens (${filteredTokens.length})`}>
+        <div className="max-h-96 space-y-2 overflow-y-auto">
+          {filteredTokens.map(({ token, index }) => (
+            <TokenDetails key={index} token={token} index={index} />
+          ))}
+        </div>
+      </Section>
+      <Section title="Options">
+        <pre className="max-h-72 overflow-auto rounded bg-gray-100 p-2">
+          {JSON.stringify(coreConfig.options || {}, null, 2)}
+        </pre>
+      </Section>
+      <Section title="Live probes">
+        <ProbeRunner tokens={warpCore.tokens} />
+      </Section>
+    </Card>
+  );
+}
+
+function TokenDetails({ token, index }: { token: IToken; index: number }) {
+  return (
+    <div className="rounded border border-gray-200 p-2">
+      <div className="font-medium">{`#${index} ${token.symbol} on ${token.chainName}`}</div>
+      <Row label="Standard" value={token.standard} />
+      <Row label="Address" value={token.addressOrDenom || '-'} />
+      {token.collateralAddressOrDenom && (
+        <Row label="Collateral" value={token.collateralAddressOrDenom} />
+      )}
+      <Row label="Decimals" value={String(token.decimals)} />
+      <div className="mt-1 text-gray-500">Connections</div>
+      {token.connections?.length ? (
+        token.connections.map((c, i) => (
+          <div key={i} className="ml-2 break-all">
+            {`${c.token.chainName} ${c.token.symbol} ${c.token.standard} ${
+              c.token.addressOrDenom || ''
+            } (${c.type || 'hyperlane'})`}
+          </div>
+        ))
+      ) : (
+        <div className="ml-2">None</div>
+      )}
+    </div>
+  );
+}
+
+function ProbeRunner({ tokens }: { tokens: IToken[] }) {
+  const { accounts } = useAccounts();
+  const [tokenIndex, setTokenIndex] = useState(0);
+  const [address, setAddress] = useState('');
+  const { runProbes, results, isLoading } = useDebugProbes();
+
+  const token = tokens[tokenIndex];
+  // Defaults to the connected account of the token's protocol
+  const connectedAddress = token
+    ? getAccountAddressAndPubKey(token.chainName, accounts).address
+    : undefined;
+  const account = address.trim() || connectedAddress;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          value={tokenIndex}
+          onChange={(e) => setTokenIndex(Number(e.target.value))}
+          className="rounded-lg border border-primary-300 px-2 py-2.5 outline-none focus:border-primary-500"
+        >
+          {tokens.map((t, i) => (
+            <option key={i} value={i}>
+              {`#${i} ${t.symbol} on ${t.chainName}`}
+            </option>
+          ))}
+        </select>
+        <TextInput
+          value={address}
+          onChange={setAddress}
+          placeholder={connectedAddress || 'Account address'}
+          name="debugAddress"
+          classes="w-96 max-w-full"
+        />
+        <SolidButton
+          type="button"
+          color="accent"
+          onClick={() => token && account && runProbes({ token, address: account })}
+          disabled={!token || !account || isLoading}
+          classes="px-3 py-2"
+        >
+          {isLoading ? 'Probing...' : 'Run probes'}
+        </SolidButton>
+      </div>
+      {results?.map((r) => (
+        <div key={r.label} className="flex justify-between gap-2">
+          <span className="shrink-0 text-gray-600">{r.label}</span>
+          <span className={`break-all text-right ${r.error ? 'text-red-600' : ''}`}>
+            {`${r.error || r.value} (${r.latency} ms)`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, children }: PropsWithChildren<{ title: string }>) {
+  return (
+    <div>
+      <h3 className="mb-1.5 text-sm font-medium text-gray-800">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex gap-2">
+      <span className="w-24 shrink-0 text-gray-500">{label}</span>
+      <span className="break-all">{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMutation } from '@tanstack/react-query';
+
+import { IToken, TokenAmount } from '@hyperlane-xyz/sdk';
+
+import { getMultiProvider, getWarpCore } from '../../context/context';
+
+export interface ProbeResult {
+  label: string;
+  value?: string;
+  error?: string;
+  latency: number;
+}
+
+export function useDebugProbes() {
+  const mutation = useMutation({
+    mutationFn: ({ token, address }: { token: IToken; address: Address }) =>
+      runDebugProbes(token, address),
+  });
+  return {
+    runProbes: mutation.mutate,
+    results: mutation.data,
+    isLoading: mutation.isLoading,
+  };
+}
+
+// Live balance and fee quotes of a token for an account, one result per request so a
+// failing RPC or route doesn't hide the others
+async function runDebugProbes(token: IToken, address: Address): Promise<ProbeResult[]> {
+  const warpCore = getWarpCore();
+  const destinations = [...new Set((token.connections || []).map((c) => c.token.chainName))];
+  return Promise.all([
+    runProbe(`Balance on ${token.chainName}`, async () =>
+      formatAmount(await token.getBalance(getMultiProvider(), address)),
+    ),
+    ...destinations.map((destination) =>
+      runProbe(`Fees to ${destination}`, async () => {
+        const { interchainQuote, localQuote } = await warpCore.estimateTransferRemoteFees({
+          originToken: token,
+          destination,
+          sender: address,
+        });
+        return `interchain ${formatAmount(interchainQuote)}, local ${formatAmount(localQuote)}`;
+      }),
+    ),
+  ]);
+}
+
+async function runProbe(label: string, probe: () => Promise<string>): Promise<ProbeResult> {
+  const start = Date.now();
+  try {
+    const value = await probe();
+    return { label, value, latency: Date.now() - start };
+  } catch (error: any) {
+    return { label, error: error?.message || String(error), latency: Date.now() - start };
+  }
+}
+
+function formatAmount(amount: TokenAmount) {
+  return `${amount.getDecimalFormattedAmount()} ${amount.token.symbol}`;
+}
@@ -0,0 +1,5 @@
+import { config } from '../../consts/config';
+
+export function isDebugPageEnabled() {
+  return config.isDevMode || config.enableDebugPage;
+}
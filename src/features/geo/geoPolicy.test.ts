@@ -0,0 +1,72 @@
+import {
+  DEFAULT_GEO_POLICY,
+  GeoPolicy,
+  getGeoBlockReason,
+  isPathExempt,
+  parseGeoPolicy,
+} from './geoPolicy';
+
+const policy: GeoPolicy = {
+  blockedCountries: ['CU', 'KP'],
+  blockedRegions: [{ country: 'UA', regions: ['43', '14'] }],
+  exemptPaths: ['/terms', '/api/status/*'],
+};
+
+describe('getGeoBlockReason', () => {
+  it('blocks listed countries', () => {
+    expect(getGeoBlockReason(policy, { country: 'CU' })).toEqual({ country: 'CU' });
+    expect(getGeoBlockReason(policy, { country: 'kp', region: '01' })).toEqual({ country: 'KP' });
+  });
+
+  it('blocks listed regions only', () => {
+    expect(getGeoBlockReason(policy, { country: 'UA', region: '43' })).toEqual({
+      country: 'UA',
+      region: '43',
+    });
+    expect(getGeoBlockReason(policy, { country: 'UA', region: '30' })).toBeNull();
+    expect(getGeoBlockReason(policy, { country: 'UA' })).toBeNull();
+  });
+
+  it('allows other or unknown locations', () => {
+    expect(getGeoBlockReason(policy, { country: 'US', region: '43' })).toBeNull();
+    expect(getGeoBlockReason(policy, {})).toBeNull();
+  });
+});
+
+describe('isPathExempt', () => {
+  it('matches exact paths', () => {
+    expect(isPathExempt(policy, '/terms')).toBe(true);
+    expect(isPathExempt(policy, '/terms/other')).toBe(false);
+    expect(isPathExempt(policy, '/')).toBe(false);
+  });
+
+  it('matches wildcard prefixes', () => {
+    expect(isPathExempt(policy, '/api/status/')).toBe(true);
+    expect(isPathExempt(policy, '/api/status/health')).toBe(true);
+    expect(isPathExempt(policy, '/api/other')).toBe(false);
+  });
+
+  it('always exempts the blocked page', () => {
+    expect(isPathExempt({ ...policy, exemptPaths: [] }, '/blocked')).toBe(true);
+  });
+});
+
+describe('parseGeoPolicy', () => {
+  it('returns the default policy when unset', () => {
+    expect(parseGeoPolicy(undefined)).toEqual(DEFAULT_GEO_POLICY);
+    expect(parseGeoPolicy(' ')).toEqual(DEFAULT_GEO_POLICY);
+  });
+
+  it('merges provided fields over the defaults', () => {
+    const parsed = parseGeoPolicy('{"blockedCountries":["cu"],"exemptPaths":["/terms"]}');
+    expect(parsed.blockedCountries).toEqual(['CU']);
+    expect(parsed.exemptPaths).toEqual(['/terms']);
+    expect(parsed.blockedRegions).toEqual(DEFAULT_GEO_POLICY.blockedRegions);
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => parseGeoPolicy('{"blockedCountries":["Cuba"]}')).toThrow();
+    expect(() => parseGeoPolicy('{"exemptPaths":["terms"]}')).toThrow();
+    expect(() => parseGeoPolicy('not json')).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+const CountryCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, 'Expected an ISO 3166-1 alpha-2 country code')
+  .transform((c) => c.toUpperCase());
+
+const PathPatternSchema = z
+  .string()
+  .regex(/^\/[^*]*\*?$/, 'Expected a path starting with /, optionally ending with *');
+
+export const GeoPolicySchema = z.object({
+  blockedCountries: z.array(CountryCodeSchema),
+  blockedRegions: z.array(
+    z.object({
+      country: CountryCodeSchema,
+      regions: z.array(z.string().min(1)),
+    }),
+  ),
+  // Paths that are never blocked, a trailing * matches any suffix (e.g. /api/*)
+  exemptPaths: z.array(PathPatternSchema),
+});
+
+export type GeoPolicy = z.infer<typeof GeoPolicySchema>;
+
+export interface GeoBlockReason {
+  country: string;
+  region?: string;
+}
+
+// The blocked page itself must stay reachable
+const ALWAYS_EXEMPT_PATHS = ['/blocked'];
+
+export const DEFAULT_GEO_POLICY: GeoPolicy = {
+  blockedCountries: [
+    'CU', // Cuba
+    'KP', // North Korea
+    'RU', // Russia
+    'AF', // Afghanistan
+    'BY', // Belarus
+    'BA', // Bosnia & Herzegovina
+    'CF', // Central African Republic
+    'CD', // Democratic Republic of the Congo
+    'GN', // Guinea
+    'GW', // Guinea-Bissau
+    'HT', // Haiti
+    'IQ', // Iraq
+    'LB', // Lebanon
+    'LY', // Libya
+    'ML', // Mali
+    'NI', // Nicaragua
+    'SO', // Somalia
+    'SS', // South Sudan
+    'SD', // Sudan
+    'VE', // Venezuela
+    'YE', // Yemen
+    'ZW', // Zimbabwe
+    'MM', // Myanmar
+    'SY', // Syria
+  ],
+  blockedRegions: [
+    {
+      country: 'UA', // Ukraine
+      regions: [
+        '43', // Crimea
+        '14', // Donetsk
+        '09', // Luhansk
+      ],
+    },
+  ],
+  exemptPaths: [],
+};
+
+// Parses a JSON policy, fields that are omitted keep their default values
+// Throws if the JSON or any of its fields are invalid
+export function parseGeoPolicy(json?: string): GeoPolicy {
+  if (!json?.trim()) return DEFAULT_GEO_POLICY;
+  const result = GeoPolicySchema.partial().safeParse(JSON.parse(json));
+  if (!result.success) throw new Error(`Invalid geo policy: ${result.error.toString()}`);
+  return { ...DEFAULT_GEO_POLICY, ...result.data };
+}
+
+export function isPathExempt(policy: GeoPolicy, pathname: string) {
+  return [...ALWAYS_EXEMPT_PATHS, ...policy.exemptPaths].some((pattern) =>
+    pattern.endsWith('*') ? pathname.startsWith(pattern.slice(0, -1)) : pathname === pattern,
+  );
+}
+
+export function getGeoBlockReason(
+  policy: GeoPolicy,
+  geo: { country?: string; region?: string },
+): GeoBlockReason | null {
+  const country = geo.country?.toUpperCase();
+  const region = geo.region;
+  if (!country) return null;
+  if (policy.blockedCountries.includes(country)) return { country };
+  const blockedRegions = policy.blockedRegions.find((r) => r.country === country)?.regions;
+  if (region && blockedRegions?.includes(region)) return { country, region };
+  return null;
+}
@@ -0,0 +1,87 @@
+import { IToken, TokenAmount } from '@hyperlane-xyz/sdk';
+
+import { config } from '../../consts/config';
+import { logger } from '../../utils/logger';
+import { tryGetChainMetadata } from '../chains/utils';
+
+import { createCoinGeckoPriceSource } from './sources/coingecko';
+import { mockPriceSource } from './sources/mock';
+import { createStaticPriceSource } from './sources/static';
+import { FeeBreakdown, PriceSource } from './types';
+
+let priceSource: PriceSource | null | undefined;
+
+// Null when pricing is disabled or misconfigured
+export function getPriceSource(): PriceSource | null {
+  if (priceSource !== undefined) return priceSource;
+  if (config.priceSource === 'coingecko')
+    priceSource = createCoinGeckoPriceSource(config.priceApiUrl);
+  else if (config.priceSource === 'static')
+    priceSource = createStaticPriceSource(config.staticPrices);
+  else if (config.priceSource === 'mock') priceSource = mockPriceSource;
+  else {
+    if (config.priceSource !== 'none') logger.warn(`Unknown price source ${config.priceSource}`);
+    priceSource = null;
+  }
+  return priceSource;
+}
+
+// Native gas tokens have no CoinGecko id of their own, their chain metadata does
+// Symbols are often not CoinGecko ids, so they're only used by sources that accept them
+export function getPriceId(token: IToken): string | undefined {
+  if (token.coinGeckoId) return token.coinGeckoId;
+  if (token.isNative()) {
+    const gasCurrencyId = tryGetChainMetadata(token.chainName)?.gasCurrencyCoinGeckoId;
+    if (gasCurrencyId) return gasCurrencyId;
+  }
+  return getPriceSource()?.acceptsSymbols ? token.symbol.toLowerCase() : undefined;
+}
+
+export function getPriceIds(tokens: IToken[]) {
+  const ids = tokens.map(getPriceId).filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+export async function fetchUsdPrices(tokens: IToken[]): Promise<Record<string, number>> {
+  const source = getPriceSource();
+  if (!source || !tokens.length) return {};
+  return source.getUsdPrices(getPriceIds(tokens));
+}
+
+export function getUsdValue(amount: TokenAmount | undefined, prices: Record<string, number>) {
+  if (!amount) return undefined;
+  const id = getPriceId(amount.token);
+  const price = id ? prices[id] : undefined;
+  if (price === undefined) return undefined;
+  return amount.getDecimalFormattedAmount() * price;
+}
+
+// Fees are only summed when all of them could be priced, a partial total would mislead
+export function getFeeBreakdown(
+  amount: TokenAmount | undefined,
+  fees: { localQuote: TokenAmount; interchainQuote: TokenAmount } | null | undefined,
+  prices: Record<string, number>,
+): FeeBreakdown {
+  const amountUsd = getUsdValue(amount, prices);
+  const localFeeUsd = getUsdValue(fees?.localQuote, prices);
+  const interchainFeeUsd = getUsdValue(fees?.interchainQuote, prices);
+  const totalFeeUsd =
+    localFeeUsd !== undefined && interchainFeeUsd !== undefined
+      ? localFeeUsd + interchainFeeUsd
+      : undefined;
+  const feePercent =
+    totalFeeUsd !== undefined && amountUsd ? (totalFeeUsd / amountUsd) * 100 : undefined;
+  return {
+    amountUsd,
+    localFeeUsd,
+    interchainFeeUsd,
+    totalFeeUsd,
+    feePercent,
+    isAboveThreshold: feePercent !== undefined && feePercent > config.feeWarningThreshold,
+  };
+}
+
+export function formatUsd(value: number) {
+  if (value > 0 && value < 0.01) return '<$0.01';
+  return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+import { PriceSource } from '../types';
+
+const SimplePriceResponseSchema = z.record(z.object({ usd: z.number().optional() }));
+
+// Queries GET <url>/simple/price?ids=<ids>&vs_currencies=usd
+// Works with the CoinGecko API and any service that mirrors its response format
+export function createCoinGeckoPriceSource(url: string): PriceSource {
+  return {
+    id: 'coingecko',
+    name: 'CoinGecko',
+    getUsdPrices: async (ids) => {
+      if (!ids.length) return {};
+      const requestUrl = new URL(`${url.replace(/\/$/, '')}/simple/price`, window.location.origin);
+      requestUrl.searchParams.set('ids', ids.join(','));
+      requestUrl.searchParams.set('vs_currencies', 'usd');
+      const res = await fetch(requestUrl);
+      if (!res.ok) throw new Error(`Price request failed: ${res.status}`);
+      const result = SimplePriceResponseSchema.parse(await res.json());
+      return Object.entries(result).reduce<Record<string, number>>((acc, [id, price]) => {
+        if (price.usd !== undefined) acc[id] = price.usd;
+        return acc;
+      }, {});
+    },
+  };
+}
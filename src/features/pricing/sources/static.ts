@@ -0,0 +1,15 @@
+import { PriceSource } from '../types';
+
+// Serves fixed prices from the app config, useful for stablecoin-only deployments
+export function createStaticPriceSource(prices: Record<string, number>): PriceSource {
+  return {
+    id: 'static',
+    name: 'Static prices',
+    acceptsSymbols: true,
+    getUsdPrices: async (ids) =>
+      ids.reduce<Record<string, number>>((acc, id) => {
+        if (typeof prices[id] === 'number') acc[id] = prices[id];
+        return acc;
+      }, {}),
+  };
+}
@@ -0,0 +1,19 @@
+// Source of fiat prices, ids are CoinGecko ids or lowercase symbols, see getPriceId
+export interface PriceSource {
+  id: string;
+  name: string;
+  // Whether tokens without a CoinGecko id can be priced by their lowercase symbol
+  acceptsSymbols?: boolean;
+  // Returns USD prices for the ids it knows, unknown ids are omitted
+  getUsdPrices: (ids: string[]) => Promise<Record<string, number>>;
+}
+
+export interface FeeBreakdown {
+  amountUsd?: number;
+  localFeeUsd?: number;
+  interchainFeeUsd?: number;
+  totalFeeUsd?: number;
+  // Total fees as a percentage of the transfer amount
+  feePercent?: number;
+  isAboveThreshold: boolean;
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { IToken } from '@hyperlane-xyz/sdk';
+
+import { logger } from '../../utils/logger';
+
+import { fetchUsdPrices, getPriceIds } from './prices';
+
+const PRICE_REFRESH_INTERVAL = 60_000; // 1m
+
+// Prices are a nice-to-have, so failures are logged rather than surfaced
+export function useUsdPrices(tokens: Array<IToken | undefined>, enabled = true) {
+  const definedTokens = tokens.filter((t): t is IToken => !!t);
+  const ids = getPriceIds(definedTokens).sort();
+
+  const { isLoading, data } = useQuery({
+    // eslint-disable-next-line @tanstack/query/exhaustive-deps
+    queryKey: ['useUsdPrices', ids],
+    queryFn: async () => {
+      try {
+        return await fetchUsdPrices(definedTokens);
+      } catch (error) {
+        logger.warn('Error fetching token prices', error);
+        return {};
+      }
+    },
+    enabled: enabled && ids.length > 0,
+    refetchInterval: PRICE_REFRESH_INTERVAL,
+  });
+
+  return { isLoading, prices: data || {} };
+}
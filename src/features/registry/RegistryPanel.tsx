@@ -0,0 +1,70 @@
+import { useState } from 'react';
+
+import { SolidButton } from '../../components/buttons/SolidButton';
+import { TextInput } from '../../components/input/TextField';
+import { config } from '../../consts/config';
+import { getRegistrySourceKey, isGithubRegistryUri } from '../../context/registry';
+import { useStore } from '../store';
+
+const DEFAULT_OPTION = 'default';
+
+// Lets users point the app at one of the allowed registries without a redeploy
+export function RegistryPanel() {
+  const { registrySource, setRegistrySource, transferLoading } = useStore((s) => ({
+    registrySource: s.registrySource,
+    setRegistrySource: s.setRegistrySource,
+    transferLoading: s.transferLoading,
+  }));
+  const [uri, setUri] = useState(registrySource?.uri || DEFAULT_OPTION);
+  const [branch, setBranch] = useState(registrySource?.branch || '');
+
+  if (!config.registryAllowList.length) return null;
+
+  const isDefault = uri === DEFAULT_OPTION;
+  const selected = isDefault
+    ? null
+    : { uri, branch: isGithubRegistryUri(uri) ? branch.trim() || undefined : undefined };
+  const isUnchanged = getRegistrySourceKey(selected) === getRegistrySourceKey(registrySource);
+
+  return (
+    <div className="rounded border border-gray-300 px-2.5 py-2 text-xs">
+      <div className="flex justify-between">
+        <span className="font-medium text-gray-800">Registry</span>
+        <span className="truncate pl-2 text-gray-500">
+          {registrySource ? getRegistrySourceKey(registrySource) : 'Default'}
+        </span>
+      </div>
+      <select
+        value={uri}
+        onChange={(e) => setUri(e.target.value)}
+        className="mt-1.5 w-full rounded border border-gray-300 px-1.5 py-1 outline-none focus:border-primary-500"
+      >
+        <option value={DEFAULT_OPTION}>Default</option>
+        {config.registryAllowList.map((allowed) => (
+          <option key={allowed} value={allowed}>
+            {allowed}
+          </option>
+        ))}
+      </select>
+      {!isDefault && isGithubRegistryUri(uri) && (
+        <TextInput
+          name="registryBranch"
+          value={branch}
+          onChange={setBranch}
+          placeholder="Branch (default main)"
+          classes="w-full"
+        />
+      )}
+      <SolidButton
+        type="button"
+        color="accent"
+        onClick={() => setRegistrySource(selected)}
+        // Switching remounts the app which would interrupt a pending transfer
+        disabled={isUnchanged || transferLoading}
+        classes="mt-1.5 w-full px-2 py-1 text-xs"
+      >
+        Switch registry
+      </SolidButton>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useRouter } from 'next/router';
+import { useMemo, useState } from 'react';
+
+import { TokenIcon } from '../../components/icons/TokenIcon';
+import { TextInput } from '../../components/input/TextField';
+import { Card } from '../../components/layout/Card';
+import { getIndexForToken, getTokens } from '../../context/context';
+import { logger } from '../../utils/logger';
+import { getChainDisplayName } from '../chains/utils';
+import { getDeepLinkQuery } from '../transfer/deepLink';
+
+import {
+  RouteEdge,
+  TokenEndKind,
+  buildRouteGraph,
+  getChainPairKey,
+  getEdgeDirectionLabel,
+} from './routeGraph';
+
+const GRAPH_SIZE = 360;
+const GRAPH_RADIUS = 140;
+const NODE_RADIUS = 6;
+
+const kindLabels: Record<TokenEndKind, string> = {
+  [TokenEndKind.Native]: 'Native',
+  [TokenEndKind.Collateral]: 'Collateral',
+  [TokenEndKind.Synthetic]: 'Synthetic',
+  [TokenEndKind.Ibc]: 'IBC',
+  [TokenEndKind.Other]: 'Other',
+};
+
+const kindColors: Record<TokenEndKind, string> = {
+  [TokenEndKind.Native]: 'bg-green-100 text-green-700',
+  [TokenEndKind.Collateral]: 'bg-primary-100 text-primary-700',
+  [TokenEndKind.Synthetic]: 'bg-amber-100 text-amber-700',
+  [TokenEndKind.Ibc]: 'bg-gray-150 text-gray-700',
+  [TokenEndKind.Other]: 'bg-gray-150 text-gray-500',
+};
+
+// Overview of every chain and warp route the app supports
+export function RoutesExplorer() {
+  const router = useRouter();
+  const [symbolFilter, setSymbolFilter] = useState('');
+  const [selectedPair, setSelectedPair] = useState<string | null>(null);
+
+  const graph = useMemo(() => buildRouteGraph(getTokens(), symbolFilter), [symbolFilter]);
+  const edges = selectedPair
+    ? graph.edges.filter((e) => getChainPairKey(e.origin, e.destination) === selectedPair)
+    : graph.edges;
+
+  const onSelectEdge = (edge: RouteEdge) => {
+    const query = getDeepLinkQuery({
+      origin: edge.origin,
+      destination: edge.destination,
+      tokenIndex: getIndexForToken(edge.originToken),
+      amount: '',
+      recipient: '',
+    });
+    router.push({ pathname: '/', query }).catch((error) => logger.warn('Error routing', error));
+  };
+
+  // Lines with a single route go straight to the form, others narrow the list below
+  const onClickPair = (pairKey: string) => {
+    const pairEdges = graph.edges.filter(
+      (e) => getChainPairKey(e.origin, e.destination) === pairKey,
+    );
+    if (pairEdges.length === 1) onSelectEdge(pairEdges[0]);
+    else setSelectedPair(pairKey === selectedPair ? null : pairKey);
+  };
+
+  return (
+    <Card className="w-100 sm:w-[38rem]">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-primary-500">Routes</h2>
+        <TextInput
+          value={symbolFilter}
+          onChange={(v) => {
+            setSymbolFilter(v);
+            setSelectedPair(null);
+          }}
+          placeholder="Filter by symbol"
+          name="symbolFilter"
+          classes="w-40"
+        />
+      </div>
+      {graph.chains.length ? (
+        <>
+          <RouteGraphView
+            chains={graph.chains}
+            edges={graph.edges}
+            selectedPair={selectedPair}
+            onClickPair={onClickPair}
+          />
+          <RouteEdgeList edges={edges} onSelect={onSelectEdge} />
+        </>
+      ) : (
+        <div className="my-8 text-center text-sm text-gray-500">No routes found</div>
+      )}
+    </Card>
+  );
+}
+
+function RouteGraphView({
+  chains,
+  edges,
+  selectedPair,
+  onClickPair,
+}: {
+  chains: ChainName[];
+  edges: RouteEdge[];
+  selectedPair: string | null;
+  onClickPair: (pairKey: string) => void;
+}) {
+  // Chains are placed evenly on a circle
+  const positions = useMemo(() => {
+    const center = GRAPH_SIZE / 2;
+    return chains.reduce<Record<ChainName, { x: number; y: number }>>((acc, chain, i) => {
+      const angle = (2 * Math.PI * i) / chains.length - Math.PI / 2;
+      acc[chain] = {
+        x: center + GRAPH_RADIUS * Math.cos(angle),
+        y: center + GRAPH_RADIUS * Math.sin(angle),
+      };
+      return acc;
+    }, {});
+  }, [chains]);
+
+  const pairs = useMemo(() => {
+    const counts: Record<string, { a: ChainName; b: ChainName; count: number }> = {};
+    for (const { origin, destination } of edges) {
+      const key = getChainPairKey(origin, destination);
+      counts[key] ||= { a: origin, b: destination, count: 0 };
+      counts[key].count++;
+    }
+    return Object.entries(counts);
+  }, [edges]);
+
+  return (
+    <svg viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`} className="mx-auto my-2 w-full max-w-md">
+      {pairs.map(([key, { a, b, count }]) => (
+        <line
+          key={key}
+          x1={positions[a].x}
+          y1={positions[a].y}
+          x2={positions[b].x}
+          y2={positions[b].y}
+          strokeWidth={Math.min(1 + count, 5)}
+          className={`cursor-pointer transition-all hover:stroke-primary-500 ${
+            key === selectedPair ? 'stroke-primary-500' : 'stroke-gray-300'
+          }`}
+          onClick={() => onClickPair(key)}
+        >
+          <title>{`${getChainDisplayName(a)} ↔ ${getChainDisplayName(b)}: ${count} route(s)`}</title>
+        </line>
+      ))}
+      {chains.map((chain) => (
+        <g key={chain}>
+          <circle
+            cx={positions[chain].x}
+            cy={positions[chain].y}
+            r={NODE_RADIUS}
+            className="fill-primary-500"
+          />
+          <text
+            x={positions[chain].x}
+            y={positions[chain].y - NODE_RADIUS - 4}
+            textAnchor="middle"
+            className="fill-gray-700 text-[10px]"
+          >
+            {getChainDisplayName(chain, true)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function RouteEdgeList({
+  edges,
+  onSelect,
+}: {
+  edges: RouteEdge[];
+  onSelect: (edge: RouteEdge) => void;
+}) {
+  return (
+    <div className="mt-2 max-h-80 space-y-1 overflow-y-auto">
+      {edges.map((edge, i) => (
+        <button
+          key={i}
+          type="button"
+          onClick={() => onSelect(edge)}
+          className="flex w-full items-center justify-between rounded px-2 py-1.5 text-left text-xs transition-all hover:bg-gray-100"
+        >
+          <div className="flex items-center">
+            <TokenIcon token={edge.originToken} size={20} />
+            <span className="ml-2 w-14 truncate">{edge.originToken.symbol}</span>
+            <span>{`${getChainDisplayName(edge.origin, true)} → ${getChainDisplayName(
+              edge.destination,
+              true,
+            )}`}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <KindBadge kind={edge.originKind} />
+            <span className="text-gray-500">{getEdgeDirectionLabel(edge)}</span>
+            <KindBadge kind={edge.destinationKind} />
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function KindBadge({ kind }: { kind: TokenEndKind }) {
+  return <span className={`rounded px-1.5 py-0.5 ${kindColors[kind]}`}>{kindLabels[kind]}</span>;
+}
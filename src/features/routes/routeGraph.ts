@@ -0,0 +1,99 @@
+import {
+  IToken,
+  TOKEN_COLLATERALIZED_STANDARDS,
+  TokenConnectionType,
+  TokenStandard,
+} from '@hyperlane-xyz/sdk';
+
+import { isRouteBlocked } from './routePolicy';
+
+// How a token is represented at one end of a route
+export enum TokenEndKind {
+  Native = 'native',
+  Collateral = 'collateral',
+  Synthetic = 'synthetic',
+  Ibc = 'ibc',
+  Other = 'other',
+}
+
+// A single direction of a token connection, e.g. USDC from ethereum to arbitrum
+export interface RouteEdge {
+  originToken: IToken;
+  destinationToken: IToken;
+  origin: ChainName;
+  destination: ChainName;
+  type: TokenConnectionType;
+  originKind: TokenEndKind;
+  destinationKind: TokenEndKind;
+}
+
+export interface RouteGraph {
+  chains: ChainName[];
+  edges: RouteEdge[];
+}
+
+// Checked before the collateralized standards, which include the native routers
+const NATIVE_STANDARDS: TokenStandard[] = [
+  TokenStandard.EvmNative,
+  TokenStandard.EvmHypNative,
+  TokenStandard.SealevelNative,
+  TokenStandard.SealevelHypNative,
+  TokenStandard.CosmosNative,
+  TokenStandard.CwHypNative,
+];
+
+export function getTokenEndKind(token: IToken): TokenEndKind {
+  if (token.isIbcToken()) return TokenEndKind.Ibc;
+  if (NATIVE_STANDARDS.includes(token.standard)) return TokenEndKind.Native;
+  if (TOKEN_COLLATERALIZED_STANDARDS.includes(token.standard)) return TokenEndKind.Collateral;
+  if (token.isHypToken()) return TokenEndKind.Synthetic;
+  return TokenEndKind.Other;
+}
+
+// Builds the chains and directed edges of all permitted token connections
+// The symbol filter matches case-insensitively on either end of a route
+export function buildRouteGraph(tokens: IToken[], symbolFilter?: string): RouteGraph {
+  const query = symbolFilter?.trim().toLowerCase();
+  const edges: RouteEdge[] = [];
+  for (const token of tokens) {
+    for (const connection of token.connections || []) {
+      const destinationToken = connection.token;
+      if (isRouteBlocked(token.chainName, destinationToken.chainName)) continue;
+      if (
+        query &&
+        !token.symbol.toLowerCase().includes(query) &&
+        !destinationToken.symbol.toLowerCase().includes(query)
+      )
+        continue;
+      edges.push({
+        originToken: token,
+        destinationToken,
+        origin: token.chainName,
+        destination: destinationToken.chainName,
+        type: connection.type || TokenConnectionType.Hyperlane,
+        originKind: getTokenEndKind(token),
+        destinationKind: getTokenEndKind(destinationToken),
+      });
+    }
+  }
+  const chains = Array.from(new Set(edges.flatMap((e) => [e.origin, e.destination]))).sort();
+  return { chains, edges };
+}
+
+// Describes what happens to the funds along an edge, e.g. 'Lock and mint'
+export function getEdgeDirectionLabel({ originKind, destinationKind }: RouteEdge) {
+  const isLocked = originKind === TokenEndKind.Collateral || originKind === TokenEndKind.Native;
+  const isReleased =
+    destinationKind === TokenEndKind.Collateral || destinationKind === TokenEndKind.Native;
+  if (isLocked && destinationKind === TokenEndKind.Synthetic) return 'Lock and mint';
+  if (originKind === TokenEndKind.Synthetic && isReleased) return 'Burn and release';
+  if (originKind === TokenEndKind.Synthetic && destinationKind === TokenEndKind.Synthetic)
+    return 'Burn and mint';
+  if (isLocked && isReleased) return 'Lock and release';
+  return 'Transfer';
+}
+
+// Key shared by both directions between two chains, used to draw one line per pair
+export function getChainPairKey(a: ChainName, b: ChainName) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
@@ -0,0 +1,108 @@
+import { IToken, TokenConnectionType } from '@hyperlane-xyz/sdk';
+
+import { planRoute } from './routePlanner';
+
+let mockTokens: IToken[] = [];
+const mockBlockedRoutes = new Set<string>();
+
+jest.mock('../../context/context', () => ({
+  getTokens: () => mockTokens,
+  getWarpCore: jest.fn(),
+}));
+
+jest.mock('./routePolicy', () => ({
+  isRouteBlocked: (origin: string, destination: string) =>
+    mockBlockedRoutes.has(`${origin}-${destination}`),
+}));
+
+function createToken(chainName: ChainName, addressOrDenom: string, collateral?: string): IToken {
+  const token = {
+    chainName,
+    addressOrDenom,
+    collateralAddressOrDenom: collateral,
+    connections: [],
+  };
+  mockTokens.push(token as unknown as IToken);
+  return token as unknown as IToken;
+}
+
+function connect(a: IToken, b: IToken, type?: TokenConnectionType) {
+  a.connections!.push({ token: b, type } as any);
+  b.connections!.push({ token: a, type } as any);
+}
+
+// Tokens on chain1 through chainN, each connected to the next
+function createLine(numChains: number) {
+  const tokens = Array.from({ length: numChains }, (_, i) => createToken(`chain${i + 1}`, '0x1'));
+  tokens.slice(1).forEach((t, i) => connect(tokens[i], t));
+  return tokens;
+}
+
+beforeEach(() => {
+  mockTokens = [];
+  mockBlockedRoutes.clear();
+});
+
+describe('planRoute', () => {
+  it('returns a single leg for direct routes', () => {
+    const [origin, destination] = createLine(2);
+    expect(planRoute(origin, 'chain2')).toEqual([
+      {
+        originToken: origin,
+        destinationToken: destination,
+        destination: 'chain2',
+        type: TokenConnectionType.Hyperlane,
+      },
+    ]);
+  });
+
+  it('prefers the direct route over longer ones', () => {
+    const [first, , third] = createLine(3);
+    connect(first, third);
+    expect(planRoute(first, 'chain3')).toHaveLength(1);
+  });
+
+  it('continues through tokens sharing the arrived asset', () => {
+    const origin = createToken('chain1', '0xsynthetic');
+    const arrived = createToken('chain2', 'ibc/denom');
+    const collateral = createToken('chain2', '0xrouter', 'IBC/DENOM');
+    const destination = createToken('chain3', '0xsynthetic2');
+    connect(origin, arrived, TokenConnectionType.Ibc);
+    connect(collateral, destination);
+
+    const legs = planRoute(origin, 'chain3');
+    expect(legs).toHaveLength(2);
+    expect(legs![0]).toMatchObject({ originToken: origin, type: TokenConnectionType.Ibc });
+    expect(legs![1]).toMatchObject({
+      originToken: collateral,
+      destinationToken: destination,
+      destination: 'chain3',
+    });
+  });
+
+  it('returns null when no route exists', () => {
+    const [origin] = createLine(3);
+    createToken('chain4', '0x1');
+    expect(planRoute(origin, 'chain4')).toBeNull();
+  });
+
+  it('skips blocked connections', () => {
+    const [origin] = createLine(3);
+    mockBlockedRoutes.add('chain2-chain3');
+    expect(planRoute(origin, 'chain2')).toHaveLength(1);
+    expect(planRoute(origin, 'chain3')).toBeNull();
+  });
+
+  it('limits routes to three legs', () => {
+    const [origin] = createLine(5);
+    expect(planRoute(origin, 'chain4')).toHaveLength(3);
+    expect(planRoute(origin, 'chain5')).toBeNull();
+  });
+
+  it('terminates on cyclic connections', () => {
+    const [first, second, third] = createLine(3);
+    connect(third, first);
+    connect(second, createToken('chain1', '0x2'));
+    expect(planRoute(first, 'chain9')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { IToken, TokenConnectionType } from '@hyperlane-xyz/sdk';
+
+import { getTokens, getWarpCore } from '../../context/context';
+
+import { isRouteBlocked } from './routePolicy';
+
+// Longest journey the planner will consider, each leg is a separate transfer
+const MAX_LEGS = 3;
+
+// One transfer of a route, from the origin token's chain to the destination
+export interface RouteLeg {
+  originToken: IToken;
+  destinationToken: IToken;
+  destination: ChainName;
+  type: TokenConnectionType;
+}
+
+// Finds the shortest chain of transfers that moves the token to the destination
+// Returns a single leg for direct routes and null when no route exists
+export function planRoute(originToken: IToken, destination: ChainName): RouteLeg[] | null {
+  const queue: Array<{ token: IToken; legs: RouteLeg[] }> = [{ token: originToken, legs: [] }];
+  const visitedChains = new Set<ChainName>([originToken.chainName]);
+
+  while (queue.length) {
+    const { token, legs } = queue.shift()!;
+    for (const connection of token.connections || []) {
+      const next = connection.token;
+      if (isRouteBlocked(token.chainName, next.chainName)) continue;
+      const path = [
+        ...legs,
+        {
+          originToken: token,
+          destinationToken: next,
+          destination: next.chainName,
+          type: connection.type || TokenConnectionType.Hyperlane,
+        },
+      ];
+      if (next.chainName === destination) return path;
+      if (path.length >= MAX_LEGS || visitedChains.has(next.chainName)) continue;
+      visitedChains.add(next.chainName);
+      getHopTokens(next).forEach((t) => queue.push({ token: t, legs: path }));
+    }
+  }
+  return null;
+}
+
+export function isMultiHopRoute(legs?: RouteLeg[] | null) {
+  return !!legs && legs.length > 1;
+}
+
+// Tokens on the origin that can reach the destination, directly or via other chains
+// Falls back to multi-hop routes only if no direct route exists
+export function getTokensForPlannedRoute(origin: ChainName, destination: ChainName): IToken[] {
+  const warpCore = getWarpCore();
+  const direct = warpCore.getTokensForRoute(origin, destination);
+  if (direct.length || !origin || !destination) return direct;
+  return warpCore.tokens.filter(
+    (t) => t.chainName === origin && t.isMultiChainToken() && !!planRoute(t, destination),
+  );
+}
+
+// Tokens that can continue a route after arriving as the given token, e.g. a warp
+// route whose collateral is the denom an IBC transfer delivered
+function getHopTokens(arrived: IToken): IToken[] {
+  return getTokens().filter(
+    (t) =>
+      t.chainName === arrived.chainName &&
+      (t === arrived ||
+        isSameAsset(t.collateralAddressOrDenom, arrived.addressOrDenom) ||
+        isSameAsset(arrived.collateralAddressOrDenom, t.addressOrDenom)),
+  );
+}
+
+// Addresses and denoms are compared case-insensitively to match checksummed EVM addresses
+function isSameAsset(a?: string, b?: string) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,107 @@
+import { config } from '../../consts/config';
+import { logger } from '../../utils/logger';
+import { getChainDisplayName, tryGetChainMetadata } from '../chains/utils';
+
+const WILDCARD = '*';
+
+// A CAIP-2 chain id where either part may be a wildcard
+// E.g. ethereum:1, sealevel:*, or *
+interface Caip2Pattern {
+  namespace: string;
+  reference: string;
+}
+
+interface RoutePattern {
+  origin: Caip2Pattern;
+  destination: Caip2Pattern;
+}
+
+// Matches a pair of CAIP-2 ids. Cosmos references may include dashes (e.g. cosmos:neutron-1)
+// so the split point is the first dash that is followed by another namespace
+const ROUTE_PATTERN_REGEX = /^(.+?)-([a-z][-a-z0-9]{2,7}:.+|\*)$/;
+
+export function parseCaip2Pattern(value: string): Caip2Pattern | null {
+  const trimmed = value.trim();
+  if (trimmed === WILDCARD) return { namespace: WILDCARD, reference: WILDCARD };
+  const [namespace, reference, ...rest] = trimmed.split(':');
+  if (!namespace || !reference || rest.length) return null;
+  return { namespace: namespace.toLowerCase(), reference };
+}
+
+export function parseTransferBlacklist(value: string): RoutePattern[] {
+  return splitList(value).reduce<RoutePattern[]>((acc, entry) => {
+    const match = ROUTE_PATTERN_REGEX.exec(entry);
+    const origin = match && parseCaip2Pattern(match[1]);
+    const destination = match && parseCaip2Pattern(match[2]);
+    if (origin && destination) acc.push({ origin, destination });
+    else logger.warn('Ignoring invalid transfer blacklist entry', entry);
+    return acc;
+  }, []);
+}
+
+export function parseWithdrawalWhitelist(value: string): Caip2Pattern[] {
+  return splitList(value).reduce<Caip2Pattern[]>((acc, entry) => {
+    const pattern = parseCaip2Pattern(entry);
+    if (pattern) acc.push(pattern);
+    else logger.warn('Ignoring invalid withdrawal whitelist entry', entry);
+    return acc;
+  }, []);
+}
+
+export function matchesCaip2Pattern(caip2Id: string, pattern: Caip2Pattern) {
+  const [namespace, reference] = caip2Id.split(':');
+  return (
+    (pattern.namespace === WILDCARD || pattern.namespace === namespace) &&
+    (pattern.reference === WILDCARD || pattern.reference === reference)
+  );
+}
+
+export function getChainCaip2Id(chain: ChainName): string | undefined {
+  const metadata = tryGetChainMetadata(chain);
+  if (!metadata) return undefined;
+  return `${metadata.protocol}:${metadata.chainId}`;
+}
+
+const transferBlacklist = parseTransferBlacklist(config.transferBlacklist);
+const withdrawalWhitelist = parseWithdrawalWhitelist(config.withdrawalWhitelist);
+
+// Returns a user-facing explanation if transfers between the chains are
+// disallowed by the app config, or null if the route is permitted
+export function getRouteBlockReason(origin: ChainName, destination: ChainName): string | null {
+  if (!origin || !destination) return null;
+  const originId = getChainCaip2Id(origin);
+  const destinationId = getChainCaip2Id(destination);
+  if (!originId || !destinationId) return null;
+
+  if (
+    withdrawalWhitelist.length &&
+    !withdrawalWhitelist.some((p) => matchesCaip2Pattern(destinationId, p))
+  ) {
+    return `Transfers to ${getChainDisplayName(destination)} are not supported`;
+  }
+
+  if (
+    transferBlacklist.some(
+      (p) =>
+        matchesCaip2Pattern(originId, p.origin) &&
+        matchesCaip2Pattern(destinationId, p.destination),
+    )
+  ) {
+    return `Transfers from ${getChainDisplayName(origin)} to ${getChainDisplayName(
+      destination,
+    )} are disabled`;
+  }
+
+  return null;
+}
+
+export function isRouteBlocked(origin: ChainName, destination: ChainName) {
+  return !!getRouteBlockReason(origin, destination);
+}
+
+function splitList(value: string) {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => !!v);
+}
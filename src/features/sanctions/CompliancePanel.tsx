@@ -0,0 +1,57 @@
+import { config } from '../../consts/config';
+
+import { useAccountScreening } from './hooks/useAccountScreening';
+import { getSanctionsProviders } from './screening';
+import { ProviderResultStatus, ScreeningResult } from './types';
+
+// Summarizes the sanctions screening of the connected accounts per provider
+export function CompliancePanel() {
+  const { results, isLoading } = useAccountScreening();
+  const providers = getSanctionsProviders();
+
+  if (!results.length && !isLoading) return null;
+
+  return (
+    <div className="rounded border border-gray-300 px-2.5 py-2 text-xs">
+      <div className="flex justify-between">
+        <span className="font-medium text-gray-800">Compliance screening</span>
+        <span className="text-gray-500">
+          {config.sanctionsFailClosed ? 'Fail-closed' : 'Fail-open'}
+        </span>
+      </div>
+      <div className="mt-1.5 space-y-1">
+        {providers.map((p) => (
+          <div key={p.id} className="flex justify-between">
+            <span className="text-gray-600">{p.name}</span>
+            {isLoading ? (
+              <span className="text-gray-500">Checking...</span>
+            ) : (
+              <ProviderStatus status={getProviderStatus(p.id, results)} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ProviderStatus({ status }: { status: ProviderResultStatus | null }) {
+  if (status === ProviderResultStatus.Sanctioned)
+    return <span className="text-red-600">Flagged</span>;
+  if (status === ProviderResultStatus.Error)
+    return <span className="text-amber-600">Unavailable</span>;
+  if (status === ProviderResultStatus.Clear) return <span className="text-green-600">Clear</span>;
+  return <span className="text-gray-500">Not applicable</span>;
+}
+
+// Worst status of a provider across all screened addresses, null if it screened none
+function getProviderStatus(providerId: string, results: ScreeningResult[]) {
+  const statuses = results
+    .flatMap((r) => r.results)
+    .filter((r) => r.providerId === providerId)
+    .map((r) => r.status);
+  if (!statuses.length) return null;
+  if (statuses.includes(ProviderResultStatus.Sanctioned)) return ProviderResultStatus.Sanctioned;
+  if (statuses.includes(ProviderResultStatus.Error)) return ProviderResultStatus.Error;
+  return ProviderResultStatus.Clear;
+}
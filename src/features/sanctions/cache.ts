@@ -0,0 +1,24 @@
+interface CacheEntry<T> {
+  promise: Promise<T>;
+  expiresAt: number;
+}
+
+// Caches async results per key for a fixed time, failed fetches are not cached
+export function createTtlCache<T>(ttl: number) {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const get = (key: string, fetchFn: () => Promise<T>): Promise<T> => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) return entry.promise;
+    const promise = fetchFn().catch((error) => {
+      entries.delete(key);
+      throw error;
+    });
+    entries.set(key, { promise, expiresAt: Date.now() + ttl });
+    return promise;
+  };
+
+  const clear = () => entries.clear();
+
+  return { get, clear };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { useAccounts } from '../../wallet/hooks/multiProtocol';
+import { getAccountScreeningTargets, screenAddresses } from '../screening';
+
+// Screens the addresses of all connected accounts, across protocols
+export function useAccountScreening() {
+  const { readyAccounts } = useAccounts();
+  const targets = getAccountScreeningTargets(readyAccounts);
+  const addresses = targets.map((t) => `${t.protocol}:${t.address}`);
+
+  const { data, isLoading } = useQuery({
+    // eslint-disable-next-line @tanstack/query/exhaustive-deps
+    queryKey: ['useAccountScreening', addresses],
+    queryFn: () => screenAddresses(targets),
+    enabled: targets.length > 0,
+  });
+
+  return { results: data || [], isLoading: isLoading && targets.length > 0 };
+}
@@ -1,9 +1,11 @@
-import { useIsAccountChainalysisSanctioned } from './useIsAccountChainalysisSanctioned';
-import { useIsAccountOfacSanctioned } from './useIsAccountOfacSanctioned';
+import { config } from '../../../consts/config';
 
-export function useIsAccountSanctioned() {
-  const isAccountOfacSanctioned = useIsAccountOfacSanctioned();
-  const isAccountChainalysisSanctioned = useIsAccountChainalysisSanctioned();
+import { useAccountScreening } from './useAccountScreening';
 
-  return isAccountOfacSanctioned || isAccountChainalysisSanctioned;
+export function useIsAccountSanctioned() {
+  const { results, isLoading } = useAccountScreening();
+  // Accounts still being screened are only let through when failing open
+  const isSanctioned =
+    results.some((r) => r.isBlocked) || (isLoading && config.sanctionsFailClosed);
+  return { isSanctioned, isLoading };
 }
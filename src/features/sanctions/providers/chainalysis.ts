@@ -0,0 +1,55 @@
+import { createPublicClient, http, isAddress } from 'viem';
+import { mainnet } from 'viem/chains';
+
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { getMultiProvider } from '../../../context/context';
+import { SanctionsProvider } from '../types';
+
+// https://go.chainalysis.com/chainalysis-oracle-docs.html
+const ORACLE_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'addr',
+        type: 'address',
+      },
+    ],
+    name: 'isSanctioned',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+const ORACLE_ADDRESS = '0x40C57923924B5c5c5455c48D93317139ADDaC8fb';
+const ORACLE_CHAIN_ID = 1;
+
+// Prefer the configured Ethereum RPCs, fall back to viem's public default
+function getOracleClient() {
+  const multiProvider = getMultiProvider();
+  const chainName = multiProvider.tryGetChainName(ORACLE_CHAIN_ID);
+  if (chainName) return multiProvider.getViemProvider(chainName);
+  return createPublicClient({ chain: mainnet, transport: http() });
+}
+
+export const chainalysisProvider: SanctionsProvider = {
+  id: 'chainalysis',
+  name: 'Chainalysis oracle',
+  protocols: [ProtocolType.Ethereum],
+  isSanctioned: async ({ address }) => {
+    if (!isAddress(address)) return false;
+    return getOracleClient().readContract({
+      abi: ORACLE_ABI,
+      functionName: 'isSanctioned',
+      args: [address],
+      address: ORACLE_ADDRESS,
+    });
+  },
+};
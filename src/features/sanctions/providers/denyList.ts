@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import { ProtocolType, eqAddress } from '@hyperlane-xyz/utils';
+
+import { config } from '../../../consts/config';
+import { createTtlCache } from '../cache';
+import { SanctionsProvider } from '../types';
+
+// A plain list of addresses, compared against addresses of all protocols
+const DenyListSchema = z.array(z.string().min(1));
+
+const listCache = createTtlCache<string[]>(config.sanctionsCacheTtl);
+
+async function fetchDenyList(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Deny list request failed: ${res.status}`);
+  return DenyListSchema.parse(await res.json());
+}
+
+// Reads a JSON array of addresses, usually a file served from /public
+export function createDenyListProvider(url: string): SanctionsProvider {
+  return {
+    id: 'deny-list',
+    name: 'Local deny list',
+    protocols: Object.values(ProtocolType),
+    isSanctioned: async ({ address }) => {
+      const list = await listCache.get(url, () => fetchDenyList(url));
+      return list.some((a) => eqAddress(a, address));
+    },
+  };
+}
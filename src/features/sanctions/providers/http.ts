@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { SanctionsProvider } from '../types';
+
+const HttpScreeningResponseSchema = z.object({
+  sanctioned: z.boolean(),
+});
+
+// Queries a custom endpoint as GET <url>?address=<address>&protocol=<protocol>
+// The endpoint must respond with JSON of the form { "sanctioned": boolean }
+export function createHttpProvider(url: string): SanctionsProvider {
+  return {
+    id: 'http',
+    name: 'Screening API',
+    protocols: Object.values(ProtocolType),
+    isSanctioned: async ({ address, protocol }) => {
+      const requestUrl = new URL(url, window.location.origin);
+      requestUrl.searchParams.set('address', address);
+      requestUrl.searchParams.set('protocol', protocol);
+      const res = await fetch(requestUrl);
+      if (!res.ok) throw new Error(`Screening API request failed: ${res.status}`);
+      return HttpScreeningResponseSchema.parse(await res.json()).sanctioned;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { ProtocolType, eqAddress } from '@hyperlane-xyz/utils';
+
+import { config } from '../../../consts/config';
+import { createTtlCache } from '../cache';
+import { SanctionsProvider } from '../types';
+
+const OFAC_SANCTIONED_ADDRESSES_ENDPOINT =
+  'https://raw.githubusercontent.com/0xB10C/ofac-sanctioned-digital-currency-addresses/lists/sanctioned_addresses_ETH.json';
+
+const listCache = createTtlCache<string[]>(config.sanctionsCacheTtl);
+
+async function fetchOfacList() {
+  const res = await fetch(OFAC_SANCTIONED_ADDRESSES_ENDPOINT);
+  if (!res.ok) throw new Error(`OFAC list request failed: ${res.status}`);
+  return res.json() as Promise<string[]>;
+}
+
+// The published list only covers EVM addresses
+export const ofacProvider: SanctionsProvider = {
+  id: 'ofac',
+  name: 'OFAC SDN list',
+  protocols: [ProtocolType.Ethereum],
+  isSanctioned: async ({ address }) => {
+    const list = await listCache.get('ofac', fetchOfacList);
+    return list.some((a) => eqAddress(a, address));
+  },
+};
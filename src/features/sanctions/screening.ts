@@ -0,0 +1,110 @@
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { config } from '../../consts/config';
+import { logger } from '../../utils/logger';
+import { AccountInfo } from '../wallet/hooks/types';
+
+import { createTtlCache } from './cache';
+import { chainalysisProvider } from './providers/chainalysis';
+import { createDenyListProvider } from './providers/denyList';
+import { createHttpProvider } from './providers/http';
+import { ofacProvider } from './providers/ofac';
+import {
+  ProviderResult,
+  ProviderResultStatus,
+  SanctionsProvider,
+  ScreenedAddress,
+  ScreeningResult,
+} from './types';
+
+const BUILT_IN_PROVIDERS: Record<string, SanctionsProvider> = {
+  [ofacProvider.id]: ofacProvider,
+  [chainalysisProvider.id]: chainalysisProvider,
+};
+
+const resultCache = createTtlCache<boolean>(config.sanctionsCacheTtl);
+
+let providers: SanctionsProvider[] | null = null;
+
+export function getSanctionsProviders() {
+  if (!providers) {
+    providers = config.sanctionsProviders
+      .map((id) => {
+        if (!BUILT_IN_PROVIDERS[id]) logger.warn(`Unknown sanctions provider ${id}`);
+        return BUILT_IN_PROVIDERS[id];
+      })
+      .filter((p): p is SanctionsProvider => !!p);
+    // Url-based providers are enabled by setting their url
+    if (config.sanctionsDenyListUrl)
+      providers.push(createDenyListProvider(config.sanctionsDenyListUrl));
+    if (config.sanctionsApiUrl) providers.push(createHttpProvider(config.sanctionsApiUrl));
+  }
+  return providers;
+}
+
+// Checks an address against every provider that supports its protocol
+export async function screenAddress(target: ScreenedAddress): Promise<ScreeningResult> {
+  const { address, protocol } = target;
+  const applicable = getSanctionsProviders().filter((p) => p.protocols.includes(protocol));
+  const results = await Promise.all(
+    applicable.map(async (p): Promise<ProviderResult> => {
+      try {
+        const cacheKey = `${p.id}:${protocol}:${address}`;
+        const isSanctioned = await resultCache.get(cacheKey, () => p.isSanctioned(target));
+        return {
+          providerId: p.id,
+          providerName: p.name,
+          status: isSanctioned ? ProviderResultStatus.Sanctioned : ProviderResultStatus.Clear,
+        };
+      } catch (error) {
+        logger.warn(`Sanctions provider ${p.id} failed to screen ${address}`, error);
+        return { providerId: p.id, providerName: p.name, status: ProviderResultStatus.Error };
+      }
+    }),
+  );
+  const isSanctioned = results.some((r) => r.status === ProviderResultStatus.Sanctioned);
+  const hasError = results.some((r) => r.status === ProviderResultStatus.Error);
+  return {
+    ...target,
+    results,
+    isSanctioned,
+    isBlocked: isSanctioned || (hasError && config.sanctionsFailClosed),
+  };
+}
+
+// Returns a reason if the address must not be used, e.g. 'Recipient address is sanctioned'
+export async function getAddressBlockReason(target: ScreenedAddress, subject: string) {
+  const result = await screenAddress(target);
+  return result.isBlocked ? getBlockReason(result, subject) : null;
+}
+
+export function screenAddresses(targets: ScreenedAddress[]) {
+  return Promise.all(targets.map((t) => screenAddress(t)));
+}
+
+export function getAccountScreeningTargets(accounts: AccountInfo[]): ScreenedAddress[] {
+  return accounts
+    .filter((a) => a.isReady)
+    .flatMap((a) => a.addresses.map(({ address }) => ({ address, protocol: a.protocol })));
+}
+
+// Returns form errors if the recipient or any connected account is blocked
+export async function getSanctionsError(
+  accounts: AccountInfo[],
+  recipient: { address: Address; protocol?: ProtocolType },
+): Promise<Record<string, string> | null> {
+  const { address, protocol } = recipient;
+  const [recipientReason, accountResults] = await Promise.all([
+    address && protocol ? getAddressBlockReason({ address, protocol }, 'Recipient address') : null,
+    screenAddresses(getAccountScreeningTargets(accounts)),
+  ]);
+  const blockedAccount = accountResults.find((r) => r.isBlocked);
+  if (blockedAccount) return { form: getBlockReason(blockedAccount, 'Connected account') };
+  if (recipientReason) return { recipient: recipientReason };
+  return null;
+}
+
+function getBlockReason(result: ScreeningResult, subject: string) {
+  if (result.isSanctioned) return `${subject} is sanctioned`;
+  return `${subject} could not be screened, please try again later`;
+}
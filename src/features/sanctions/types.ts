@@ -0,0 +1,33 @@
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+export interface ScreenedAddress {
+  address: Address;
+  protocol: ProtocolType;
+}
+
+export interface SanctionsProvider {
+  id: string;
+  name: string;
+  // Protocols the provider can screen, addresses of other protocols are skipped
+  protocols: ProtocolType[];
+  isSanctioned: (target: ScreenedAddress) => Promise<boolean>;
+}
+
+export enum ProviderResultStatus {
+  Clear = 'clear',
+  Sanctioned = 'sanctioned',
+  Error = 'error',
+}
+
+export interface ProviderResult {
+  providerId: string;
+  providerName: string;
+  status: ProviderResultStatus;
+}
+
+export interface ScreeningResult extends ScreenedAddress {
+  results: ProviderResult[];
+  isSanctioned: boolean;
+  // True if a provider flagged the address, or failed while fail-closed is configured
+  isBlocked: boolean;
+}
@@ -1,7 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
-import { FinalTransferStatuses, TransferContext, TransferStatus } from './transfer/types';
+import { ChainMap } from '@hyperlane-xyz/sdk';
+
+import { RegistrySource } from '../context/registry';
+
+import { AddressBookEntry, getNewEntries } from './addressBook/addressBook';
+import { RpcUrlHealth } from './chains/rpcHealth';
+import { getNewTransfers } from './transfer/history';
+import {
+  FinalTransferStatuses,
+  SubmittedTx,
+  TransferContext,
+  TransferDeliveryDetails,
+  TransferStatus,
+} from './transfer/types';
 
 // Increment this when persist state has breaking changes
 const PERSIST_STATE_VERSION = 2;
@@ -11,24 +24,54 @@ const PERSIST_STATE_VERSION = 2;
 export interface AppState {
   transfers: TransferContext[];
   addTransfer: (t: TransferContext) => void;
+  importTransfers: (t: TransferContext[]) => number;
   resetTransfers: () => void;
   updateTransferStatus: (
     i: number,
     s: TransferStatus,
+    options?: { msgId?: string; originTxHash?: string } & TransferDeliveryDetails,
+  ) => void;
+  addSubmittedTx: (i: number, tx: SubmittedTx) => void;
+  addTransferLeg: (i: number, leg: TransferContext) => void;
+  updateTransferLegStatus: (
+    i: number,
+    legIndex: number,
+    s: TransferStatus,
     options?: { msgId?: string; originTxHash?: string },
   ) => void;
-  failUnconfirmedTransfers: () => void;
+  addTransferLegSubmittedTx: (i: number, legIndex: number, tx: SubmittedTx) => void;
+  failUnsubmittedTransfers: () => void;
   transferLoading: boolean;
   setTransferLoading: (isLoading: boolean) => void;
+  // User RPC urls by chain name, see setRpcOverride in chains/rpcOverrides
+  rpcOverrides: ChainMap<string>;
+  setRpcOverride: (chain: ChainName, url: string) => void;
+  removeRpcOverride: (chain: ChainName) => void;
+  addressBook: AddressBookEntry[];
+  addAddressBookEntry: (e: AddressBookEntry) => void;
+  removeAddressBookEntry: (i: number) => void;
+  importAddressBook: (e: AddressBookEntry[]) => number;
+  // Registry chosen at runtime, null for the one configured at build time
+  registrySource: RegistrySource | null;
+  setRegistrySource: (source: RegistrySource | null) => void;
+  // Not persisted, see startRpcHealthMonitor
+  rpcHealth: ChainMap<RpcUrlHealth[]>;
+  setRpcHealth: (chain: ChainName, health: RpcUrlHealth[]) => void;
 }
 
 export const useStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       transfers: [],
       addTransfer: (t) => {
         set((state) => ({ transfers: [...state.transfers, t] }));
       },
+      importTransfers: (t) => {
+        const newTransfers = getNewTransfers(get().transfers, t);
+        // Appended rather than sorted in to keep existing transfer indices stable
+        set((state) => ({ transfers: [...state.transfers, ...newTransfers] }));
+        return newTransfers.length;
+      },
       resetTransfers: () => {
         set(() => ({ transfers: [] }));
       },
@@ -39,15 +82,71 @@ export const useStore = create<AppState>()(
           txs[i].status = s;
           txs[i].msgId ||= options?.msgId;
           txs[i].originTxHash ||= options?.originTxHash;
+          txs[i].destinationTxHash ||= options?.destinationTxHash;
+          txs[i].deliveredAt ||= options?.deliveredAt;
+          txs[i].relayer ||= options?.relayer;
+          txs[i].destinationGasPaid ||= options?.destinationGasPaid;
+          txs[i].deliveryLatency ||= options?.deliveryLatency;
           return {
             transfers: txs,
           };
         });
       },
-      failUnconfirmedTransfers: () => {
+      addSubmittedTx: (i, tx) => {
+        set((state) => {
+          if (i >= state.transfers.length) return state;
+          const txs = [...state.transfers];
+          txs[i].submittedTxs = [...(txs[i].submittedTxs || []), tx];
+          return {
+            transfers: txs,
+          };
+        });
+      },
+      addTransferLeg: (i, leg) => {
+        set((state) => {
+          if (i >= state.transfers.length) return state;
+          const txs = [...state.transfers];
+          txs[i].legs = [...(txs[i].legs || []), leg];
+          return {
+            transfers: txs,
+          };
+        });
+      },
+      updateTransferLegStatus: (i, legIndex, s, options) => {
+        set((state) => {
+          const leg = state.transfers[i]?.legs?.[legIndex];
+          if (!leg) return state;
+          const txs = [...state.transfers];
+          leg.status = s;
+          leg.msgId ||= options?.msgId;
+          leg.originTxHash ||= options?.originTxHash;
+          return {
+            transfers: txs,
+          };
+        });
+      },
+      addTransferLegSubmittedTx: (i, legIndex, tx) => {
+        set((state) => {
+          const leg = state.transfers[i]?.legs?.[legIndex];
+          if (!leg) return state;
+          const txs = [...state.transfers];
+          leg.submittedTxs = [...(leg.submittedTxs || []), tx];
+          return {
+            transfers: txs,
+          };
+        });
+      },
+      // Transfers with submitted txs are left pending so they can be resumed
+      // See useResumeTransfers. Multi-hop transfers keep their txs on the legs and may have
+      // funds in flight, so they're left for useResumeTransfers too.
+      failUnsubmittedTransfers: () => {
         set((state) => ({
           transfers: state.transfers.map((t) =>
-            FinalTransferStatuses.includes(t.status) ? t : { ...t, status: TransferStatus.Failed },
+            FinalTransferStatuses.includes(t.status) ||
+            t.submittedTxs?.length ||
+            t.legs?.some((l) => l.submittedTxs?.length)
+              ? t
+              : { ...t, status: TransferStatus.Failed },
           ),
         }));
       },
@@ -55,13 +154,50 @@ export const useStore = create<AppState>()(
       setTransferLoading: (isLoading) => {
         set(() => ({ transferLoading: isLoading }));
       },
+      rpcOverrides: {},
+      setRpcOverride: (chain, url) => {
+        set((state) => ({ rpcOverrides: { ...state.rpcOverrides, [chain]: url } }));
+      },
+      removeRpcOverride: (chain) => {
+        set((state) => {
+          const rpcOverrides = { ...state.rpcOverrides };
+          delete rpcOverrides[chain];
+          return { rpcOverrides };
+        });
+      },
+      addressBook: [],
+      addAddressBookEntry: (e) => {
+        set((state) => ({ addressBook: [...state.addressBook, e] }));
+      },
+      removeAddressBookEntry: (i) => {
+        set((state) => ({ addressBook: state.addressBook.filter((_, j) => j !== i) }));
+      },
+      importAddressBook: (e) => {
+        const newEntries = getNewEntries(get().addressBook, e);
+        set((state) => ({ addressBook: [...state.addressBook, ...newEntries] }));
+        return newEntries.length;
+      },
+      registrySource: null,
+      setRegistrySource: (source) => {
+        // Health is tracked per chain url so it's stale once the chains change
+        set(() => ({ registrySource: source, rpcHealth: {} }));
+      },
+      rpcHealth: {},
+      setRpcHealth: (chain, health) => {
+        set((state) => ({ rpcHealth: { ...state.rpcHealth, [chain]: health } }));
+      },
     }),
     {
       name: 'app-state',
-      partialize: (state) => ({ transfers: state.transfers }),
+      partialize: (state) => ({
+        transfers: state.transfers,
+        rpcOverrides: state.rpcOverrides,
+        addressBook: state.addressBook,
+        registrySource: state.registrySource,
+      }),
       version: PERSIST_STATE_VERSION,
       onRehydrateStorage: () => (state) => {
-        state?.failUnconfirmedTransfers();
+        state?.failUnsubmittedTransfers();
       },
     },
   ),
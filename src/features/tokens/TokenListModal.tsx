@@ -10,6 +10,8 @@ import { config } from '../../consts/config';
 import { getWarpCore } from '../../context/context';
 import InfoIcon from '../../images/icons/info-circle.svg';
 import { getChainDisplayName } from '../chains/utils';
+import { getTokensForPlannedRoute } from '../routes/routePlanner';
+import { getRouteBlockReason } from '../routes/routePolicy';
 
 export function TokenListModal({
   isOpen,
@@ -72,16 +74,21 @@ export function TokenList({
   searchQuery: string;
   onSelect: (token: IToken) => void;
 }) {
+  const routeBlockReason = useMemo(
+    () => getRouteBlockReason(origin, destination),
+    [origin, destination],
+  );
+
   const tokens = useMemo(() => {
     const q = searchQuery?.trim().toLowerCase();
     const warpCore = getWarpCore();
     const multiChainTokens = warpCore.tokens.filter((t) => t.isMultiChainToken());
-    const tokensWithRoute = warpCore.getTokensForRoute(origin, destination);
+    const tokensWithRoute = getTokensForPlannedRoute(origin, destination);
     return (
       multiChainTokens
         .map((t) => ({
           token: t,
-          disabled: !tokensWithRoute.includes(t),
+          disabled: !!routeBlockReason || !tokensWithRoute.includes(t),
         }))
         .sort((a, b) => {
           if (a.disabled && !b.disabled) return 1;
@@ -100,10 +107,15 @@ export function TokenList({
         // Hide/show disabled tokens
         .filter((t) => (config.showDisabledTokens ? true : !t.disabled))
     );
-  }, [searchQuery, origin, destination]);
+  }, [searchQuery, origin, destination, routeBlockReason]);
 
   return (
     <div className="flex flex-col items-stretch">
+      {routeBlockReason && (
+        <div className="mb-3 rounded bg-red-100 px-3 py-2 text-sm text-red-600">
+          {routeBlockReason}
+        </div>
+      )}
       {tokens.length ? (
         tokens.map((t, i) => (
           <button
@@ -138,9 +150,12 @@ export function TokenList({
                 alt=""
                 className="ml-auto mr-1"
                 data-te-toggle="tooltip"
-                title={`Route not supported for ${getChainDisplayName(
-                  origin,
-                )} to ${getChainDisplayName(destination)}`}
+                title={
+                  routeBlockReason ||
+                  `Route not supported for ${getChainDisplayName(
+                    origin,
+                  )} to ${getChainDisplayName(destination)}`
+                }
               />
             )}
           </button>
@@ -5,8 +5,9 @@ import { useEffect, useState } from 'react';
 import { IToken } from '@hyperlane-xyz/sdk';
 
 import { TokenIcon } from '../../components/icons/TokenIcon';
-import { getIndexForToken, getTokenByIndex, getWarpCore } from '../../context/context';
+import { getIndexForToken, getTokenByIndex } from '../../context/context';
 import ChevronIcon from '../../images/icons/chevron-down.svg';
+import { getTokensForPlannedRoute } from '../routes/routePlanner';
 import { TransferFormValues } from '../transfer/types';
 
 import { TokenListModal } from './TokenListModal';
@@ -25,7 +26,7 @@ export function TokenSelectField({ name, disabled, setIsNft }: Props) {
 
   const { origin, destination } = values;
   useEffect(() => {
-    const tokensWithRoute = getWarpCore().getTokensForRoute(origin, destination);
+    const tokensWithRoute = getTokensForPlannedRoute(origin, destination);
     let newFieldValue: number | undefined;
     let newIsAutomatic: boolean;
     // No tokens available for this route
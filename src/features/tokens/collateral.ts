@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import BigNumber from 'bignumber.js';
+
+import { IToken, TOKEN_COLLATERALIZED_STANDARDS, TokenAmount } from '@hyperlane-xyz/sdk';
+import { fromWei } from '@hyperlane-xyz/utils';
+
+import { useToastError } from '../../components/toast/useToastError';
+import { getTokenByIndex, getWarpCore } from '../../context/context';
+import { planRoute } from '../routes/routePlanner';
+import { TransferFormValues } from '../transfer/types';
+
+const COLLATERAL_REFRESH_INTERVAL = 15_000; // 15s
+
+// Token that pays out the transfer on the destination, the last leg's for multi-hop routes
+export function getDestinationToken(originToken?: IToken, destination?: ChainName) {
+  if (!originToken || !destination) return undefined;
+  return planRoute(originToken, destination)?.at(-1)?.destinationToken;
+}
+
+// Liquidity held by a collateral-backed destination token, null for synthetic tokens
+// which can mint any amount
+export async function fetchDestinationCollateral(
+  originToken?: IToken,
+  destination?: ChainName,
+): Promise<TokenAmount | null> {
+  const destinationToken = getDestinationToken(originToken, destination);
+  if (!destinationToken || !TOKEN_COLLATERALIZED_STANDARDS.includes(destinationToken.standard))
+    return null;
+  const collateral = await getWarpCore().getTokenCollateral(destinationToken);
+  return destinationToken.amount(collateral);
+}
+
+export function useDestinationCollateral({ destination, tokenIndex }: TransferFormValues) {
+  const { isLoading, isError, error, data } = useQuery({
+    queryKey: ['useDestinationCollateral', destination, tokenIndex],
+    queryFn: () => fetchDestinationCollateral(getTokenByIndex(tokenIndex), destination),
+    refetchInterval: COLLATERAL_REFRESH_INTERVAL,
+  });
+
+  useToastError(error, 'Error fetching destination liquidity');
+
+  return { isLoading, isError, collateral: data ?? undefined };
+}
+
+// Compares decimal amounts so origin and destination decimals may differ
+export function exceedsCollateral(amount: string | BigNumber, collateral?: TokenAmount | null) {
+  if (!collateral) return false;
+  return new BigNumber(amount).gt(fromWei(collateral.amount.toString(), collateral.token.decimals));
+}
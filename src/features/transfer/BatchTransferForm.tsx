@@ -0,0 +1,322 @@
+import { Form, Formik, useFormikContext } from 'formik';
+import Image from 'next/image';
+import { ChangeEvent, useMemo, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+
+import { TokenAmount } from '@hyperlane-xyz/sdk';
+import { shortenAddress } from '@hyperlane-xyz/utils';
+
+import { SmallSpinner } from '../../components/animation/SmallSpinner';
+import { SolidButton } from '../../components/buttons/SolidButton';
+import { getTokenByIndex, getWarpCore } from '../../context/context';
+import { tryReadFileAsText } from '../../utils/file';
+import { logger } from '../../utils/logger';
+import {
+  STATUSES_WITH_ICON,
+  getIconByTransferStatus,
+  isTransferCancelled,
+  isTransferFailed,
+} from '../../utils/transfer';
+import { ChainSelectField } from '../chains/ChainSelectField';
+import { getChainDisplayName } from '../chains/utils';
+import { useIsAccountSanctioned } from '../sanctions/hooks/useIsAccountSanctioned';
+import { useStore } from '../store';
+import { TokenSelectField } from '../tokens/TokenSelectField';
+import { useAccounts } from '../wallet/hooks/multiProtocol';
+
+import { useFormInitialValues } from './TransferTokenForm';
+import {
+  BatchRow,
+  fetchBatchFees,
+  getBatchBalanceError,
+  getBatchTotalAmount,
+  parseBatchCsv,
+  useBatchTransfer,
+  validateBatchRows,
+} from './batch';
+import { TransferFormValues, TransferStatus } from './types';
+
+export function BatchTransferForm() {
+  const initialValues = useFormInitialValues();
+  return (
+    <Formik<TransferFormValues> initialValues={initialValues} onSubmit={() => {}}>
+      <Form className="flex w-full flex-col items-stretch">
+        <BatchTransferContent />
+      </Form>
+    </Formik>
+  );
+}
+
+function BatchTransferContent() {
+  const { values } = useFormikContext<TransferFormValues>();
+  const { accounts } = useAccounts();
+  const { isSanctioned, isLoading: isScreening } = useIsAccountSanctioned();
+  const { isLoading: isSending, sendRows, retryRow } = useBatchTransfer();
+
+  const [csv, setCsv] = useState('');
+  const [rows, setRows] = useState<BatchRow[] | null>(null);
+  const [fees, setFees] = useState<Awaited<ReturnType<typeof fetchBatchFees>>>(null);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isStarted, setIsStarted] = useState(false);
+
+  const chains = useMemo(() => getWarpCore().getTokenChains(), []);
+  const isReview = !!rows;
+  const hasErrors = !!rows?.some((r) => r.error);
+  const totalAmount = useMemo(
+    () => (rows && !hasErrors ? getBatchTotalAmount(rows, values.tokenIndex) : undefined),
+    [rows, hasErrors, values.tokenIndex],
+  );
+
+  const updateRow = (rowIndex: number, update: Partial<BatchRow>) =>
+    setRows((prev) => prev && prev.map((r, i) => (i === rowIndex ? { ...r, ...update } : r)));
+
+  const onReview = async () => {
+    const { rows: parsedRows, error } = parseBatchCsv(csv);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setIsValidating(true);
+    try {
+      const [validatedRows, batchFees] = await Promise.all([
+        validateBatchRows(parsedRows, values, accounts),
+        fetchBatchFees(parsedRows.length, values, accounts),
+      ]);
+      const isValid = !validatedRows.some((r) => r.error);
+      const total = isValid ? getBatchTotalAmount(validatedRows, values.tokenIndex) : undefined;
+      setBalanceError(await getBatchBalanceError(total, batchFees, values, accounts));
+      setRows(validatedRows);
+      setFees(batchFees);
+    } catch (error) {
+      logger.error('Error reviewing batch transfer', error);
+      toast.error('Unable to review batch transfer');
+    }
+    setIsValidating(false);
+  };
+
+  const onEdit = () => {
+    setRows(null);
+    setFees(null);
+    setBalanceError(null);
+    setIsStarted(false);
+  };
+
+  const onSend = async () => {
+    if (!rows || hasErrors || balanceError || isSanctioned || isScreening) return;
+    setIsStarted(true);
+    const numFailed = await sendRows(rows, values, updateRow);
+    if (numFailed)
+      toast.warn(`${numFailed} of ${rows.length} transfers did not complete, retry them below`);
+    else toast.success(`All ${rows.length} transfers sent!`);
+  };
+
+  const onRetry = async (rowIndex: number) => {
+    if (!rows || isSending) return;
+    await retryRow(rows[rowIndex], values, (update) => updateRow(rowIndex, update));
+  };
+
+  return (
+    <>
+      <div className="mt-4 flex items-center justify-between gap-4">
+        <ChainSelectField name="origin" label="From" chains={chains} disabled={isReview} />
+        <ChainSelectField name="destination" label="To" chains={chains} disabled={isReview} />
+      </div>
+      <div className="mt-3.5">
+        <label htmlFor="tokenIndex" className="block pl-0.5 text-sm text-gray-600">
+          Token
+        </label>
+        <TokenSelectField name="tokenIndex" disabled={isReview} setIsNft={() => {}} />
+      </div>
+      {rows ? (
+        <BatchRowList rows={rows} isStarted={isStarted} isSending={isSending} onRetry={onRetry} />
+      ) : (
+        <BatchCsvInput value={csv} onChange={setCsv} />
+      )}
+      {isReview && !hasErrors && <BatchSummary totalAmount={totalAmount} fees={fees} />}
+      <div className="mt-4 flex items-center justify-between space-x-4">
+        {isReview && (
+          <SolidButton
+            type="button"
+            color="primary"
+            onClick={onEdit}
+            disabled={isSending}
+            classes="px-6 py-1.5"
+          >
+            Edit
+          </SolidButton>
+        )}
+        {!rows ? (
+          <SolidButton
+            type="button"
+            color="accent"
+            onClick={onReview}
+            disabled={isValidating || !csv.trim()}
+            classes="flex-1 px-3 py-1.5"
+          >
+            {isValidating ? 'Validating...' : 'Review batch'}
+          </SolidButton>
+        ) : (
+          !isStarted && (
+            <SolidButton
+              type="button"
+              color={hasErrors || balanceError ? 'red' : 'accent'}
+              onClick={onSend}
+              disabled={hasErrors || !!balanceError || isSending || isScreening}
+              classes="flex-1 px-3 py-1.5"
+            >
+              {hasErrors
+                ? 'Fix invalid rows to continue'
+                : balanceError
+                  ? balanceError
+                  : isScreening
+                    ? 'Screening account...'
+                    : `Send ${rows.length} transfers to ${getChainDisplayName(values.destination)}`}
+            </SolidButton>
+          )
+        )}
+      </div>
+    </>
+  );
+}
+
+function BatchCsvInput({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const onSelectFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await tryReadFileAsText(file);
+    if (content) onChange(content);
+    else toast.error('Unable to read file');
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex justify-between pr-1">
+        <label htmlFor="batch-csv" className="block pl-0.5 text-sm text-gray-600">
+          Recipients (recipient,amount per line)
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="text-xs text-primary-500 hover:underline"
+        >
+          Upload CSV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={onSelectFile}
+        />
+      </div>
+      <textarea
+        id="batch-csv"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'0x123456...,10\n0xabcdef...,2.5'}
+        rows={6}
+        className="mt-1.5 w-full rounded-lg border border-primary-300 px-2.5 py-2.5 font-mono text-xs outline-none transition-all duration-300 focus:border-primary-500"
+      />
+    </div>
+  );
+}
+
+function BatchRowList({
+  rows,
+  isStarted,
+  isSending,
+  onRetry,
+}: {
+  rows: BatchRow[];
+  isStarted: boolean;
+  isSending: boolean;
+  onRetry: (rowIndex: number) => void;
+}) {
+  const transfers = useStore((s) => s.transfers);
+  const { values } = useFormikContext<TransferFormValues>();
+  const symbol = getTokenByIndex(values.tokenIndex)?.symbol || '';
+
+  return (
+    <div className="mt-4">
+      <label className="block pl-0.5 text-sm text-gray-600">{`Transfers (${rows.length})`}</label>
+      <div className="mt-1.5 max-h-72 divide-y overflow-y-auto rounded border border-gray-400 bg-gray-150 px-2.5 text-xs">
+        {rows.map((row, i) => {
+          const status =
+            (row.transferIndex !== undefined && transfers[row.transferIndex]?.status) || row.status;
+          return (
+            <div key={i} className="flex items-center justify-between gap-2 py-1.5">
+              <div className="min-w-0">
+                <div className="truncate font-mono">{shortenAddress(row.recipient)}</div>
+                {row.error && <div className="text-red-600">{row.error}</div>}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <span>{`${row.amount} ${symbol}`}</span>
+                {isStarted && <BatchRowStatus status={status} />}
+                {isStarted && status && isTransferFailedOrCancelled(status) && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(i)}
+                    disabled={isSending}
+                    className="text-primary-500 hover:underline disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function isTransferFailedOrCancelled(status: TransferStatus) {
+  return isTransferFailed(status) || isTransferCancelled(status);
+}
+
+function BatchRowStatus({ status }: { status?: TransferStatus }) {
+  if (!status) return <span className="text-gray-500">Queued</span>;
+  if (STATUSES_WITH_ICON.includes(status))
+    return <Image src={getIconByTransferStatus(status)} width={16} height={16} alt={status} />;
+  return <SmallSpinner />;
+}
+
+function BatchSummary({
+  totalAmount,
+  fees,
+}: {
+  totalAmount?: TokenAmount;
+  fees: Awaited<ReturnType<typeof fetchBatchFees>>;
+}) {
+  return (
+    <div className="mt-4 space-y-1.5 rounded border border-gray-400 bg-gray-150 px-2.5 py-2 text-sm">
+      {totalAmount && (
+        <p className="flex">
+          <span className="min-w-[7.5rem]">Total Amount</span>
+          <span>{`${totalAmount.getDecimalFormattedAmount()} ${totalAmount.token.symbol}`}</span>
+        </p>
+      )}
+      {fees?.localQuote && fees.localQuote.amount > 0n && (
+        <p className="flex">
+          <span className="min-w-[7.5rem]">Local Gas (est.)</span>
+          <span>{`${fees.localQuote.getDecimalFormattedAmount().toFixed(4) || '0'} ${
+            fees.localQuote.token.symbol || ''
+          }`}</span>
+        </p>
+      )}
+      {fees?.interchainQuote && fees.interchainQuote.amount > 0n && (
+        <p className="flex">
+          <span className="min-w-[7.5rem]">Interchain Gas</span>
+          <span>{`${fees.interchainQuote.getDecimalFormattedAmount().toFixed(4) || '0'} ${
+            fees.interchainQuote.token.symbol || ''
+          }`}</span>
+        </p>
+      )}
+    </div>
+  );
+}
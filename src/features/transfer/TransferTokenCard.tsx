@@ -1,11 +1,42 @@
+import { useState } from 'react';
+
 import { Card } from '../../components/layout/Card';
 
+import { BatchTransferForm } from './BatchTransferForm';
 import { TransferTokenForm } from './TransferTokenForm';
 
 export function TransferTokenCard() {
+  const [isBatchMode, setIsBatchMode] = useState(false);
+
   return (
     <Card className="w-100 sm:w-[31rem]">
-      <TransferTokenForm />
+      <div className="flex justify-end gap-1 text-xs">
+        <ModeButton label="Single" isActive={!isBatchMode} onClick={() => setIsBatchMode(false)} />
+        <ModeButton label="Batch" isActive={isBatchMode} onClick={() => setIsBatchMode(true)} />
+      </div>
+      {isBatchMode ? <BatchTransferForm /> : <TransferTokenForm />}
     </Card>
   );
 }
+
+function ModeButton({
+  label,
+  isActive,
+  onClick,
+}: {
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`rounded-full px-2.5 py-1 transition-all ${
+        isActive ? 'bg-primary-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -1,10 +1,17 @@
 import BigNumber from 'bignumber.js';
 import { Form, Formik, useFormikContext } from 'formik';
-import { useMemo, useState } from 'react';
+import { useRouter } from 'next/router';
+import { useEffect, useMemo, useState } from 'react';
 import { toast } from 'react-toastify';
 
-import { TokenAmount } from '@hyperlane-xyz/sdk';
-import { ProtocolType, errorToString, isNullish, toWei } from '@hyperlane-xyz/utils';
+import { TokenAmount, TokenConnectionType } from '@hyperlane-xyz/sdk';
+import {
+  ProtocolType,
+  errorToString,
+  isNullish,
+  isValidAddress,
+  toWei,
+} from '@hyperlane-xyz/utils';
 
 import { SmallSpinner } from '../../components/animation/SmallSpinner';
 import { ConnectAwareSubmitButton } from '../../components/buttons/ConnectAwareSubmitButton';
@@ -12,30 +19,46 @@ import { IconButton } from '../../components/buttons/IconButton';
 import { SolidButton } from '../../components/buttons/SolidButton';
 import { ChevronIcon } from '../../components/icons/Chevron';
 import { TextField } from '../../components/input/TextField';
+import { config } from '../../consts/config';
 import { getIndexForToken, getTokenByIndex, getTokens, getWarpCore } from '../../context/context';
 import SwapIcon from '../../images/icons/swap.svg';
 import { Color } from '../../styles/Color';
 import { logger } from '../../utils/logger';
+import { AddressBookModal } from '../addressBook/AddressBookModal';
+import { NewRecipientWarning, RecipientField } from '../addressBook/RecipientField';
 import { ChainSelectField } from '../chains/ChainSelectField';
 import { ChainWalletWarning } from '../chains/ChainWalletWarning';
-import { getChainDisplayName } from '../chains/utils';
+import { getChainDisplayName, tryGetChainProtocol } from '../chains/utils';
+import { formatUsd, getFeeBreakdown } from '../pricing/prices';
+import { useUsdPrices } from '../pricing/useUsdPrices';
+import { RouteLeg, isMultiHopRoute, planRoute } from '../routes/routePlanner';
+import { getRouteBlockReason } from '../routes/routePolicy';
 import { useIsAccountSanctioned } from '../sanctions/hooks/useIsAccountSanctioned';
+import { getSanctionsError } from '../sanctions/screening';
 import { useStore } from '../store';
 import { SelectOrInputTokenIds } from '../tokens/SelectOrInputTokenIds';
 import { TokenSelectField } from '../tokens/TokenSelectField';
 import { useIsApproveRequired } from '../tokens/approval';
 import { useDestinationBalance, useOriginBalance } from '../tokens/balances';
+import {
+  exceedsCollateral,
+  fetchDestinationCollateral,
+  useDestinationCollateral,
+} from '../tokens/collateral';
 import {
   getAccountAddressAndPubKey,
+  getAccountAddressForChain,
   useAccountAddressForChain,
   useAccounts,
 } from '../wallet/hooks/multiProtocol';
 import { AccountInfo } from '../wallet/hooks/types';
 
+import { getDeepLinkQuery, hasDeepLinkParams, parseDeepLink } from './deepLink';
 import { useFetchMaxAmount } from './maxAmount';
+import { RecipientRiskLevel, useRecipientRisks } from './recipientRisk';
 import { TransferFormValues } from './types';
 import { useRecipientBalanceWatcher } from './useBalanceWatcher';
-import { useFeeQuotes } from './useFeeQuotes';
+import { useFeeQuoteCountdown, useFeeQuotes } from './useFeeQuotes';
 import { useTokenTransfer } from './useTokenTransfer';
 
 export function TransferTokenForm() {
@@ -64,12 +87,14 @@ export function TransferTokenForm() {
     >
       {({ isValidating, values }) => (
         <Form className="flex w-full flex-col items-stretch">
+          <DeepLinkSync />
           <ChainWalletWarning originChain={values.origin} />
           <ChainSelectSection isReview={isReview} />
           <div className="mt-3.5 flex items-end justify-between space-x-4">
             <TokenSection setIsNft={setIsNft} isReview={isReview} />
             <AmountSection isNft={isNft} isReview={isReview} />
           </div>
+          {!isNft && <DestinationLiquidity />}
           <RecipientSection isReview={isReview} />
           <ReviewDetails visible={isReview} />
           <ButtonSection
@@ -175,24 +200,50 @@ function RecipientSection({ isReview }: { isReview: boolean }) {
   const { values } = useFormikContext<TransferFormValues>();
   const { balance } = useDestinationBalance(values);
   useRecipientBalanceWatcher(values.recipient, balance);
+  const [isAddressBookOpen, setIsAddressBookOpen] = useState(false);
 
   return (
     <div className="mt-4">
       <div className="flex justify-between pr-1">
-        <label htmlFor="recipient" className="block pl-0.5 text-sm text-gray-600">
-          Recipient address
-        </label>
+        <div className="flex items-baseline gap-2 pl-0.5">
+          <label htmlFor="recipient" className="block text-sm text-gray-600">
+            Recipient address
+          </label>
+          <button
+            type="button"
+            className="text-xs text-primary-500 hover:opacity-80"
+            onClick={() => setIsAddressBookOpen(true)}
+          >
+            Address book
+          </button>
+        </div>
         <TokenBalance label="Remote balance" balance={balance} />
       </div>
       <div className="relative w-full">
-        <TextField
-          name="recipient"
-          placeholder="0x123456..."
-          classes="w-full"
-          disabled={isReview}
-        />
+        <RecipientField disabled={isReview} />
         <SelfButton disabled={isReview} />
       </div>
+      <NewRecipientWarning />
+      <RecipientRiskWarnings />
+      <AddressBookModal isOpen={isAddressBookOpen} close={() => setIsAddressBookOpen(false)} />
+    </div>
+  );
+}
+
+function RecipientRiskWarnings() {
+  const { values } = useFormikContext<TransferFormValues>();
+  const { risks } = useRecipientRisks(values);
+  if (!risks.length) return null;
+  return (
+    <div className="mt-1 space-y-0.5 pl-0.5 text-xs">
+      {risks.map((r) => (
+        <div
+          key={r.message}
+          className={r.level === RecipientRiskLevel.High ? 'text-red-600' : 'text-amber-600'}
+        >
+          {r.message}
+        </div>
+      ))}
     </div>
   );
 }
@@ -202,6 +253,25 @@ function TokenBalance({ label, balance }: { label: string; balance?: TokenAmount
   return <div className="text-right text-xs text-gray-600">{`${label}: ${value}`}</div>;
 }
 
+// Shown only for collateral-backed destinations, synthetic tokens have no limit
+function DestinationLiquidity() {
+  const { values } = useFormikContext<TransferFormValues>();
+  const { collateral } = useDestinationCollateral(values);
+  if (!collateral) return null;
+  const isExceeded = !!values.amount && exceedsCollateral(values.amount, collateral);
+  return (
+    <div
+      className={`mt-1 pr-1 text-right text-xs ${isExceeded ? 'text-amber-600' : 'text-gray-600'}`}
+    >
+      {`Liquidity on ${getChainDisplayName(values.destination)}: ${formatCollateral(collateral)}`}
+    </div>
+  );
+}
+
+function formatCollateral(collateral: TokenAmount) {
+  return `${collateral.getDecimalFormattedAmount().toFixed(4)} ${collateral.token.symbol}`;
+}
+
 function ButtonSection({
   isReview,
   isValidating,
@@ -212,7 +282,7 @@ function ButtonSection({
   setIsReview: (b: boolean) => void;
 }) {
   const { values } = useFormikContext<TransferFormValues>();
-  const isSanctioned = useIsAccountSanctioned();
+  const { isSanctioned } = useIsAccountSanctioned();
 
   const onDoneTransactions = () => {
     setIsReview(false);
@@ -220,6 +290,15 @@ function ButtonSection({
     // resetForm();
   };
   const { triggerTransactions } = useTokenTransfer(onDoneTransactions);
+  const { fees, isFetching: isQuoteFetching } = useFeeQuotes(values, isReview);
+  const { isStale: isQuoteStale } = useFeeQuoteCountdown(fees, isReview);
+  const { hasHighRisk, isLoading: isRiskLoading } = useRecipientRisks(values);
+  const [isRiskAcknowledged, setIsRiskAcknowledged] = useState(false);
+  // Each review of a risky recipient needs its own acknowledgement
+  useEffect(() => {
+    setIsRiskAcknowledged(false);
+  }, [isReview, values.recipient, values.destination]);
+  const isRiskBlocking = isRiskLoading || (hasHighRisk && !isRiskAcknowledged);
 
   const { setTransferLoading } = useStore((s) => ({
     setTransferLoading: s.setTransferLoading,
@@ -229,9 +308,11 @@ function ButtonSection({
     if (isSanctioned) {
       return;
     }
+    // Expired quotes are refetched automatically, the user must wait for the new one
+    if (isQuoteStale || isQuoteFetching || isRiskBlocking) return;
     setIsReview(false);
     setTransferLoading(true);
-    await triggerTransactions(values);
+    await triggerTransactions(values, fees);
   };
 
   if (!isReview) {
@@ -245,25 +326,43 @@ function ButtonSection({
   }
 
   return (
-    <div className="mt-4 flex items-center justify-between space-x-4">
-      <SolidButton
-        type="button"
-        color="primary"
-        onClick={() => setIsReview(false)}
-        classes="px-6 py-1.5"
-        icon={<ChevronIcon direction="w" width={10} height={6} color={Color.white} />}
-      >
-        <span>Edit</span>
-      </SolidButton>
-      <SolidButton
-        type="button"
-        color="accent"
-        onClick={triggerTransactionsHandler}
-        classes="flex-1 px-3 py-1.5"
-      >
-        {`Send to ${getChainDisplayName(values.destination)}`}
-      </SolidButton>
-    </div>
+    <>
+      {hasHighRisk && (
+        <label className="mt-4 flex items-start gap-2 text-xs text-red-600">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={isRiskAcknowledged}
+            onChange={(e) => setIsRiskAcknowledged(e.target.checked)}
+          />
+          I understand the recipient warnings above and that the tokens may be lost
+        </label>
+      )}
+      <div className="mt-4 flex items-center justify-between space-x-4">
+        <SolidButton
+          type="button"
+          color="primary"
+          onClick={() => setIsReview(false)}
+          classes="px-6 py-1.5"
+          icon={<ChevronIcon direction="w" width={10} height={6} color={Color.white} />}
+        >
+          <span>Edit</span>
+        </SolidButton>
+        <SolidButton
+          type="button"
+          color="accent"
+          onClick={triggerTransactionsHandler}
+          classes="flex-1 px-3 py-1.5"
+          disabled={isQuoteStale || isQuoteFetching || isRiskBlocking}
+        >
+          {isQuoteStale || isQuoteFetching
+            ? 'Refreshing quote...'
+            : isRiskLoading
+              ? 'Checking recipient...'
+              : `Send to ${getChainDisplayName(values.destination)}`}
+        </SolidButton>
+      </div>
+    </>
   );
 }
 
@@ -272,13 +371,17 @@ function MaxButton({ balance, disabled }: { balance?: TokenAmount; disabled?: bo
   const { origin, destination, tokenIndex } = values;
   const { accounts } = useAccounts();
   const { fetchMaxAmount, isLoading } = useFetchMaxAmount();
+  const { collateral } = useDestinationCollateral(values);
 
   const onClick = async () => {
     if (!balance || isNullish(tokenIndex) || disabled) return;
     const maxAmount = await fetchMaxAmount({ balance, origin, destination, accounts });
     if (isNullish(maxAmount)) return;
-    const decimalsAmount = maxAmount.getDecimalFormattedAmount();
-    const roundedAmount = new BigNumber(decimalsAmount).toFixed(4, BigNumber.ROUND_FLOOR);
+    let decimalsAmount = new BigNumber(maxAmount.getDecimalFormattedAmount());
+    // The destination can't pay out more than its collateral
+    if (collateral && exceedsCollateral(decimalsAmount, collateral))
+      decimalsAmount = new BigNumber(collateral.getDecimalFormattedAmount());
+    const roundedAmount = decimalsAmount.toFixed(4, BigNumber.ROUND_FLOOR);
     setFieldValue('amount', roundedAmount);
   };
 
@@ -332,8 +435,12 @@ function ReviewDetails({ visible }: { visible: boolean }) {
   const { amount, destination, tokenIndex } = values;
   const originToken = getTokenByIndex(tokenIndex);
   const originTokenSymbol = originToken?.symbol || '';
-  const connection = originToken?.getConnectionForChain(destination);
-  const destinationToken = connection?.token;
+  const legs = useMemo(
+    () => (originToken ? planRoute(originToken, destination) : null),
+    [originToken, destination],
+  );
+  // For multi-hop routes, the transactions below are those of the first leg
+  const destinationToken = legs?.[0]?.destinationToken;
   const isNft = originToken?.isNft();
 
   const amountWei = isNft ? amount.toString() : toWei(amount, originToken?.decimals);
@@ -343,7 +450,22 @@ function ReviewDetails({ visible }: { visible: boolean }) {
     amountWei,
     visible,
   );
-  const { isLoading: isQuoteLoading, fees } = useFeeQuotes(values, visible);
+  const {
+    isLoading: isQuoteLoading,
+    isFetching: isQuoteFetching,
+    fees,
+  } = useFeeQuotes(values, visible);
+  const { secondsLeft, isStale: isQuoteStale } = useFeeQuoteCountdown(fees, visible);
+  const { collateral } = useDestinationCollateral(values);
+  const { prices } = useUsdPrices(
+    [originToken, fees?.localQuote.token, fees?.interchainQuote.token],
+    visible && !isNft,
+  );
+  const feeBreakdown = getFeeBreakdown(
+    originToken && !isNft ? originToken.amount(amountWei) : undefined,
+    fees,
+    prices,
+  );
 
   const isLoading = isApproveLoading || isQuoteLoading;
 
@@ -353,7 +475,17 @@ function ReviewDetails({ visible }: { visible: boolean }) {
         visible ? 'max-h-screen duration-1000 ease-in' : 'max-h-0 duration-500'
       } overflow-hidden transition-all`}
     >
-      <label className="mt-4 block pl-0.5 text-sm text-gray-600">Transactions</label>
+      {legs && isMultiHopRoute(legs) && <RouteLegs legs={legs} />}
+      <div className="mt-4 flex justify-between pl-0.5 pr-1">
+        <label className="text-sm text-gray-600">Transactions</label>
+        {fees && (
+          <span className="text-xs text-gray-600">
+            {isQuoteStale || isQuoteFetching
+              ? 'Refreshing quote...'
+              : `Quote expires in ${secondsLeft}s`}
+          </span>
+        )}
+      </div>
       <div className="mt-1.5 space-y-2 break-all rounded border border-gray-400 bg-gray-150 px-2.5 py-2 text-sm">
         {isLoading ? (
           <div className="flex items-center justify-center py-6">
@@ -383,14 +515,20 @@ function ReviewDetails({ visible }: { visible: boolean }) {
                 )}
                 <p className="flex">
                   <span className="min-w-[6.5rem]">{isNft ? 'Token ID' : 'Amount'}</span>
-                  <span>{`${amount} ${originTokenSymbol}`}</span>
+                  <span>{`${amount} ${originTokenSymbol}${usdSuffix(feeBreakdown.amountUsd)}`}</span>
                 </p>
+                {!isNft && collateral && (
+                  <p className="flex">
+                    <span className="min-w-[6.5rem]">Dest. Liquidity</span>
+                    <span>{formatCollateral(collateral)}</span>
+                  </p>
+                )}
                 {fees?.localQuote && fees.localQuote.amount > 0n && (
                   <p className="flex">
                     <span className="min-w-[6.5rem]">Local Gas (est.)</span>
                     <span>{`${fees.localQuote.getDecimalFormattedAmount().toFixed(4) || '0'} ${
                       fees.localQuote.token.symbol || ''
-                    }`}</span>
+                    }${usdSuffix(feeBreakdown.localFeeUsd)}`}</span>
                   </p>
                 )}
                 {fees?.interchainQuote && fees.interchainQuote.amount > 0n && (
@@ -398,6 +536,16 @@ function ReviewDetails({ visible }: { visible: boolean }) {
                     <span className="min-w-[6.5rem]">Interchain Gas</span>
                     <span>{`${fees.interchainQuote.getDecimalFormattedAmount().toFixed(4) || '0'} ${
                       fees.interchainQuote.token.symbol || ''
+                    }${usdSuffix(feeBreakdown.interchainFeeUsd)}`}</span>
+                  </p>
+                )}
+                {feeBreakdown.totalFeeUsd !== undefined && (
+                  <p className="flex">
+                    <span className="min-w-[6.5rem]">Total Fees</span>
+                    <span>{`${formatUsd(feeBreakdown.totalFeeUsd)}${
+                      feeBreakdown.feePercent !== undefined
+                        ? ` (${feeBreakdown.feePercent.toFixed(2)}% of transfer)`
+                        : ''
                     }`}</span>
                   </p>
                 )}
@@ -406,22 +554,92 @@ function ReviewDetails({ visible }: { visible: boolean }) {
           </>
         )}
       </div>
+      {!isLoading && feeBreakdown.isAboveThreshold && (
+        <div className="mt-2 rounded bg-amber-100 px-2.5 py-2 text-xs text-amber-700">
+          {`Fees are ${feeBreakdown.feePercent!.toFixed(
+            2,
+          )}% of the transfer value, above the ${config.feeWarningThreshold}% warning threshold.`}
+        </div>
+      )}
     </div>
   );
 }
 
-function useFormInitialValues(): TransferFormValues {
+function usdSuffix(value?: number) {
+  return value !== undefined ? ` (~${formatUsd(value)})` : '';
+}
+
+const connectionTypeLabels: Record<TokenConnectionType, string> = {
+  [TokenConnectionType.Hyperlane]: 'Warp',
+  [TokenConnectionType.Ibc]: 'IBC',
+  [TokenConnectionType.IbcHyperlane]: 'IBC + Warp',
+};
+
+function RouteLegs({ legs }: { legs: RouteLeg[] }) {
+  return (
+    <>
+      <label className="mt-4 block pl-0.5 text-sm text-gray-600">Route</label>
+      <div className="mt-1.5 space-y-1.5 rounded border border-gray-400 bg-gray-150 px-2.5 py-2 text-xs">
+        {legs.map((leg, i) => (
+          <p key={i} className="flex">
+            <span className="min-w-[6.5rem]">{`Leg ${i + 1} (${
+              connectionTypeLabels[leg.type]
+            })`}</span>
+            <span>{`${getChainDisplayName(leg.originToken.chainName)} ${
+              leg.originToken.symbol
+            } → ${getChainDisplayName(leg.destination)} ${leg.destinationToken.symbol}`}</span>
+          </p>
+        ))}
+        <p className="text-gray-600">
+          Each leg is signed separately once the previous one has arrived.
+        </p>
+      </div>
+    </>
+  );
+}
+
+export function useFormInitialValues(): TransferFormValues {
   return useMemo(() => {
     const firstToken = getTokens()[0];
     const connectedToken = firstToken.connections?.[0];
-    return {
+    const defaults = {
       origin: firstToken.chainName,
       destination: connectedToken?.token?.chainName || '',
       tokenIndex: getIndexForToken(firstToken),
       amount: '',
       recipient: '',
     };
+    // Values from deep link params take precedence, see DeepLinkSync for error reporting
+    return parseDeepLink(window.location.search, defaults).values;
+  }, []);
+}
+
+// Reports invalid deep link params once and keeps the URL in sync with the form
+function DeepLinkSync() {
+  const { values, initialValues } = useFormikContext<TransferFormValues>();
+  const router = useRouter();
+
+  useEffect(() => {
+    const { errors } = parseDeepLink(window.location.search, initialValues);
+    if (errors.length) toast.warn(`Some link parameters were ignored: ${errors.join(', ')}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
+
+  useEffect(() => {
+    // Keep plain links plain until the user changes something
+    const isChanged = Object.keys(values).some(
+      (k) => values[k as keyof TransferFormValues] !== initialValues[k as keyof TransferFormValues],
+    );
+    if (!isChanged && !hasDeepLinkParams(window.location.search)) return;
+    router
+      .replace({ pathname: router.pathname, query: getDeepLinkQuery(values) }, undefined, {
+        shallow: true,
+      })
+      .catch((error) => logger.warn('Error updating deep link', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [values]);
+
+  return null;
 }
 
 const insufficientFundsErrMsg = /insufficient.[funds|lamports]/i;
@@ -433,8 +651,26 @@ async function validateForm(
 ) {
   try {
     const { origin, destination, tokenIndex, amount, recipient } = values;
+    const routeBlockReason = getRouteBlockReason(origin, destination);
+    if (routeBlockReason) return { destination: routeBlockReason };
     const token = getTokenByIndex(tokenIndex);
     if (!token) return { token: 'Token is required' };
+    const sanctionsError = await getSanctionsError(Object.values(accounts), {
+      address: recipient,
+      protocol: tryGetChainProtocol(destination),
+    });
+    if (sanctionsError) return sanctionsError;
+    if (!token.isNft()) {
+      const collateral = await fetchDestinationCollateral(token, destination);
+      if (collateral && exceedsCollateral(amount, collateral))
+        return {
+          amount: `Exceeds liquidity on ${getChainDisplayName(destination)} (${formatCollateral(
+            collateral,
+          )})`,
+        };
+    }
+    const legs = planRoute(token, destination);
+    if (legs && isMultiHopRoute(legs)) return validateMultiHopRoute(values, legs, accounts);
     const amountWei = toWei(amount, token.decimals);
     const { address, publicKey: senderPubKey } = getAccountAddressAndPubKey(origin, accounts);
     const result = await getWarpCore().validateTransfer({
@@ -455,3 +691,33 @@ async function validateForm(
     return { form: errorMsg };
   }
 }
+
+// Intermediate legs go to the user's own accounts, so only the first leg can be
+// fully validated up front. Later legs are checked as they are sent.
+async function validateMultiHopRoute(
+  values: TransferFormValues,
+  legs: RouteLeg[],
+  accounts: Record<ProtocolType, AccountInfo>,
+) {
+  const { origin, destination, amount, recipient } = values;
+  const destProtocol = tryGetChainProtocol(destination);
+  if (!destProtocol || !isValidAddress(recipient, destProtocol))
+    return { recipient: 'Invalid recipient' };
+  const missingChain = legs
+    .slice(0, -1)
+    .map((l) => l.destination)
+    .find((chain) => !getAccountAddressForChain(chain, accounts));
+  if (missingChain)
+    return {
+      form: `Connect a wallet for ${getChainDisplayName(missingChain)} to route through it`,
+    };
+  const [firstLeg] = legs;
+  const { address, publicKey: senderPubKey } = getAccountAddressAndPubKey(origin, accounts);
+  return getWarpCore().validateTransfer({
+    originTokenAmount: firstLeg.originToken.amount(toWei(amount, firstLeg.originToken.decimals)),
+    destination: firstLeg.destination,
+    recipient: getAccountAddressForChain(firstLeg.destination, accounts)!,
+    sender: address || '',
+    senderPubKey: await senderPubKey,
+  });
+}
@@ -1,31 +1,35 @@
 import Image from 'next/image';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
-import { ProtocolType } from '@hyperlane-xyz/utils';
+import { ProtocolType, fromWei } from '@hyperlane-xyz/utils';
 import { MessageStatus, MessageTimeline, useMessageTimeline } from '@hyperlane-xyz/widgets';
 
 import { Spinner } from '../../components/animation/Spinner';
 import { CopyButton } from '../../components/buttons/CopyButton';
+import { SolidButton } from '../../components/buttons/SolidButton';
 import { ChainLogo } from '../../components/icons/ChainLogo';
 import { TokenIcon } from '../../components/icons/TokenIcon';
 import { WideChevron } from '../../components/icons/WideChevron';
 import { Modal } from '../../components/layout/Modal';
 import { getMultiProvider, getWarpCore } from '../../context/context';
 import LinkIcon from '../../images/icons/external-link-icon.svg';
-import { formatTimestamp } from '../../utils/date';
+import { formatDuration, formatTimestamp } from '../../utils/date';
 import { getHypExplorerLink } from '../../utils/links';
 import { logger } from '../../utils/logger';
 import { useTimeout } from '../../utils/timeout';
 import {
   getIconByTransferStatus,
   getTransferStatusLabel,
+  isTransferCancelled,
   isTransferFailed,
   isTransferSent,
 } from '../../utils/transfer';
-import { getChainDisplayName, hasPermissionlessChain } from '../chains/utils';
+import { getChainDisplayName, hasPermissionlessChain, tryGetChainMetadata } from '../chains/utils';
+import { useStore } from '../store';
 import { useAccountForChain, useWalletDetails } from '../wallet/hooks/multiProtocol';
 
-import { TransferContext, TransferStatus } from './types';
+import { CancellableTransferStatuses, TransferContext, TransferStatus } from './types';
+import { cancelTransfer, useTokenTransfer } from './useTokenTransfer';
 
 export function TransfersDetailsModal({
   isOpen,
@@ -57,6 +61,13 @@ export function TransfersDetailsModal({
   const walletDetails = useWalletDetails()[account?.protocol || ProtocolType.Ethereum];
 
   const multiProvider = getMultiProvider();
+  const transfers = useStore((s) => s.transfers);
+
+  // Closing the modal mid-flow cancels the transfer if its transfer tx hasn't been sent yet
+  const onCloseModal = () => {
+    if (CancellableTransferStatuses.includes(status)) cancelTransfer(transfers.indexOf(transfer));
+    onClose();
+  };
 
   const getMessageUrls = useCallback(async () => {
     try {
@@ -90,7 +101,8 @@ export function TransfersDetailsModal({
 
   const isSent = isTransferSent(status);
   const isFailed = isTransferFailed(status);
-  const isFinal = isSent || isFailed;
+  const isCancelled = isTransferCancelled(status);
+  const isFinal = isSent || isFailed || isCancelled;
   const statusDescription = getTransferStatusLabel(
     status,
     connectorName,
@@ -110,7 +122,7 @@ export function TransfersDetailsModal({
     <Modal
       showCloseBtn={false}
       isOpen={isOpen}
-      close={onClose}
+      close={onCloseModal}
       title=""
       padding="p-4 md:p-5"
       width="max-w-sm"
@@ -121,6 +133,8 @@ export function TransfersDetailsModal({
           <div className="flex items-center font-medium">
             {isSent ? (
               <h3 className="text-primary-500">Sent</h3>
+            ) : isCancelled ? (
+              <h3 className="text-gray-500">Cancelled</h3>
             ) : (
               <h3 className="text-red-500">Failed</h3>
             )}
@@ -177,6 +191,14 @@ export function TransfersDetailsModal({
             />
           )}
           {msgId && <TransferProperty name="Message ID" value={msgId} />}
+          {!!transfer.legs?.length && <RouteLegs legs={transfer.legs} />}
+          {isFailed && transfer.legs?.some((l) => isTransferSent(l.status)) && (
+            <div className="text-xs leading-normal tracking-wider text-gray-350">
+              The route did not complete. The funds of the sent legs are in your account on the last
+              chain they reached.
+            </div>
+          )}
+          {isSent && <DestinationDetails transfer={transfer} />}
           {explorerLink && (
             <div className="flex justify-between">
               <span className="text-xs leading-normal tracking-wider text-gray-350">
@@ -194,7 +216,7 @@ export function TransfersDetailsModal({
         </div>
       ) : (
         <div className="flex flex-col items-center justify-center py-4">
-          <Spinner />
+          {status !== TransferStatus.AwaitingResume && <Spinner />}
           <div
             className={`mt-5 text-center text-sm ${
               status === TransferStatus.Failed ? 'text-red-600' : 'text-gray-600'
@@ -202,6 +224,12 @@ export function TransfersDetailsModal({
           >
             {statusDescription}
           </div>
+          {status === TransferStatus.AwaitingResume && <ResumeButton transfer={transfer} />}
+          {!!transfer.legs?.length && (
+            <div className="mt-4 w-full">
+              <RouteLegs legs={transfer.legs} />
+            </div>
+          )}
           {showSignWarning && (
             <div className="mt-3 text-center text-sm text-gray-600">
               If your wallet does not show a transaction request or never confirms, please try the
@@ -214,6 +242,121 @@ export function TransfersDetailsModal({
   );
 }
 
+function ResumeButton({ transfer }: { transfer: TransferContext }) {
+  const { resumeTransaction, isLoading } = useTokenTransfer();
+  const onClick = () => {
+    if (isLoading) return;
+    resumeTransaction(transfer).catch((error) => logger.error('Error resuming transfer', error));
+  };
+  return (
+    <SolidButton type="button" color="accent" onClick={onClick} classes="mt-4 px-6 py-1.5">
+      Continue transfer
+    </SolidButton>
+  );
+}
+
+function DestinationDetails({ transfer }: { transfer: TransferContext }) {
+  const { destination, msgId, status, destinationTxHash, relayer } = transfer;
+  const { destinationGasPaid, deliveryLatency } = transfer;
+  const [destTxUrl, setDestTxUrl] = useState<string>('');
+  const [relayerUrl, setRelayerUrl] = useState<string>('');
+
+  useEffect(() => {
+    const multiProvider = getMultiProvider();
+    if (destinationTxHash) {
+      const txUrl = multiProvider.tryGetExplorerTxUrl(destination, { hash: destinationTxHash });
+      if (txUrl) setDestTxUrl(fixDoubleSlash(txUrl));
+    }
+    if (relayer) {
+      multiProvider
+        .tryGetExplorerAddressUrl(destination, relayer)
+        .then((url) => url && setRelayerUrl(fixDoubleSlash(url)))
+        .catch((err) => logger.error('Error getting relayer URL for details modal', err));
+    }
+  }, [destination, destinationTxHash, relayer]);
+
+  // IBC transfers don't dispatch a Hyperlane message so there's nothing to track
+  if (!msgId) {
+    return (
+      <div className="text-xs leading-normal tracking-wider text-gray-350">
+        Destination details are only available for transfers sent as Hyperlane messages.
+      </div>
+    );
+  }
+
+  if (!destinationTxHash) {
+    if (status !== TransferStatus.Delivered) return null;
+    return (
+      <div className="text-xs leading-normal tracking-wider text-gray-350">
+        Destination details are not available yet.
+      </div>
+    );
+  }
+
+  const nativeToken = tryGetChainMetadata(destination)?.nativeToken;
+  const gasPaid =
+    destinationGasPaid && nativeToken
+      ? `${fromWei(destinationGasPaid, nativeToken.decimals)} ${nativeToken.symbol}`
+      : undefined;
+
+  return (
+    <>
+      <TransferProperty
+        name="Destination Transaction Hash"
+        value={destinationTxHash}
+        url={destTxUrl}
+      />
+      {relayer && <TransferProperty name="Relayer Address" value={relayer} url={relayerUrl} />}
+      {gasPaid && (
+        <TransferProperty name="Gas Paid on Destination" value={gasPaid} url={destTxUrl} />
+      )}
+      {!!deliveryLatency && (
+        <TransferProperty name="Delivery Latency" value={formatDuration(deliveryLatency)} />
+      )}
+    </>
+  );
+}
+
+// Progress of each leg of a multi-hop transfer
+function RouteLegs({ legs }: { legs: TransferContext[] }) {
+  const multiProvider = getMultiProvider();
+  return (
+    <div>
+      <label className="text-sm leading-normal tracking-wider text-gray-350">Route</label>
+      <div className="mt-1 space-y-1">
+        {legs.map((leg, i) => {
+          const txUrl = leg.originTxHash
+            ? multiProvider.tryGetExplorerTxUrl(leg.origin, { hash: leg.originTxHash })
+            : null;
+          return (
+            <div key={i} className="flex items-center justify-between text-sm tracking-wider">
+              <span>{`${getChainDisplayName(leg.origin, true)} → ${getChainDisplayName(
+                leg.destination,
+                true,
+              )}`}</span>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-500">{getLegStatusLabel(leg.status)}</span>
+                {txUrl && (
+                  <a href={fixDoubleSlash(txUrl)} target="_blank" rel="noopener noreferrer">
+                    <Image src={LinkIcon} width={14} height={14} alt="" />
+                  </a>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function getLegStatusLabel(status: TransferStatus) {
+  if (isTransferSent(status)) return 'Sent';
+  if (isTransferFailed(status)) return 'Failed';
+  if (isTransferCancelled(status)) return 'Cancelled';
+  return 'In progress';
+}
+
 // TODO consider re-enabling timeline
 export function Timeline({
   transferStatus,
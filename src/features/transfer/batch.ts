@@ -0,0 +1,228 @@
+import { useCallback, useState } from 'react';
+
+import { TokenAmount } from '@hyperlane-xyz/sdk';
+import { ProtocolType, errorToString, toWei } from '@hyperlane-xyz/utils';
+
+import { getMultiProvider, getTokenByIndex, getWarpCore } from '../../context/context';
+import { parseCsv } from '../../utils/file';
+import { logger } from '../../utils/logger';
+import { tryGetChainProtocol } from '../chains/utils';
+import { getRouteBlockReason } from '../routes/routePolicy';
+import { getAddressBlockReason } from '../sanctions/screening';
+import { useStore } from '../store';
+import {
+  getAccountAddressAndPubKey,
+  useAccounts,
+  useActiveChains,
+  useTransactionFns,
+} from '../wallet/hooks/multiProtocol';
+import { AccountInfo } from '../wallet/hooks/types';
+
+import { TransferFormValues, TransferStatus } from './types';
+import { executeTransfer } from './useTokenTransfer';
+
+export const MAX_BATCH_SIZE = 100;
+
+export interface BatchRow {
+  recipient: Address;
+  amount: string;
+  // Set once the row has been validated
+  error?: string;
+  // Index in the store's transfers list, set once the row has been submitted
+  transferIndex?: number;
+  // Latest known status, the store's transfer status takes precedence when available
+  status?: TransferStatus;
+}
+
+type BatchRowUpdateFn = (update: Partial<BatchRow>) => void;
+
+// Parses rows of `recipient,amount`, an optional header row is skipped
+export function parseBatchCsv(content: string): { rows: BatchRow[]; error?: string } {
+  const lines = parseCsv(content.trim());
+  if (lines[0]?.[0]?.trim().toLowerCase() === 'recipient') lines.shift();
+  if (!lines.length) return { rows: [], error: 'No recipients found' };
+  if (lines.length > MAX_BATCH_SIZE)
+    return { rows: [], error: `Batch is limited to ${MAX_BATCH_SIZE} recipients` };
+  const rows: BatchRow[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const [recipient, amount, ...rest] = lines[i].map((v) => v.trim());
+    if (!recipient || !amount || rest.some((v) => !!v))
+      return { rows: [], error: `Row ${i + 1} must be in the format recipient,amount` };
+    rows.push({ recipient, amount });
+  }
+  return { rows };
+}
+
+export async function validateBatchRows(
+  rows: BatchRow[],
+  values: TransferFormValues,
+  accounts: Record<ProtocolType, AccountInfo>,
+): Promise<BatchRow[]> {
+  const { origin, destination, tokenIndex } = values;
+  const routeBlockReason = getRouteBlockReason(origin, destination);
+  const token = getTokenByIndex(tokenIndex);
+  const destProtocol = tryGetChainProtocol(destination);
+  const { address, publicKey } = getAccountAddressAndPubKey(origin, accounts);
+  const senderPubKey = await publicKey;
+  const validated: BatchRow[] = [];
+  for (const row of rows) {
+    let error: string | undefined = undefined;
+    try {
+      const sanctionsReason = destProtocol
+        ? await getAddressBlockReason(
+            { address: row.recipient, protocol: destProtocol },
+            'Recipient address',
+          )
+        : null;
+      if (routeBlockReason) error = routeBlockReason;
+      else if (!token) error = 'Token is required';
+      else if (token.isNft()) error = 'NFTs are not supported in batch mode';
+      else if (sanctionsReason) error = sanctionsReason;
+      else {
+        const result = await getWarpCore().validateTransfer({
+          originTokenAmount: token.amount(toWei(row.amount, token.decimals)),
+          destination,
+          recipient: row.recipient,
+          sender: address || '',
+          senderPubKey,
+        });
+        if (result) error = Object.values(result)[0];
+      }
+    } catch (e) {
+      logger.warn('Error validating batch row', e);
+      error = errorToString(e, 40);
+    }
+    validated.push({ ...row, error });
+  }
+  return validated;
+}
+
+export function getBatchTotalAmount(rows: BatchRow[], tokenIndex?: number) {
+  const token = getTokenByIndex(tokenIndex);
+  if (!token) return undefined;
+  const total = rows.reduce((sum, r) => sum + BigInt(toWei(r.amount, token.decimals)), 0n);
+  return token.amount(total);
+}
+
+// Each row is its own transfer so fees are charged once per row
+export async function fetchBatchFees(
+  numRows: number,
+  values: TransferFormValues,
+  accounts: Record<ProtocolType, AccountInfo>,
+): Promise<{ interchainQuote: TokenAmount; localQuote: TokenAmount } | null> {
+  const { origin, destination, tokenIndex } = values;
+  const originToken = getTokenByIndex(tokenIndex);
+  const { address: sender, publicKey } = getAccountAddressAndPubKey(origin, accounts);
+  if (!originToken || !sender || !numRows) return null;
+  const { interchainQuote, localQuote } = await getWarpCore().estimateTransferRemoteFees({
+    originToken,
+    destination,
+    sender,
+    senderPubKey: await publicKey,
+  });
+  return {
+    interchainQuote: interchainQuote.token.amount(interchainQuote.amount * BigInt(numRows)),
+    localQuote: localQuote.token.amount(localQuote.amount * BigInt(numRows)),
+  };
+}
+
+// Rows are validated one at a time, so check that the whole batch and its fees fit the balance
+// Otherwise the first rows would be sent and the rest fail partway through
+export async function getBatchBalanceError(
+  totalAmount: TokenAmount | undefined,
+  fees: Awaited<ReturnType<typeof fetchBatchFees>>,
+  values: TransferFormValues,
+  accounts: Record<ProtocolType, AccountInfo>,
+): Promise<string | null> {
+  const { address: sender } = getAccountAddressAndPubKey(values.origin, accounts);
+  if (!totalAmount || !sender) return null;
+  // Fees may be paid in the transferred token or the native token
+  const required: TokenAmount[] = [];
+  for (const amount of [totalAmount, fees?.interchainQuote, fees?.localQuote]) {
+    if (!amount) continue;
+    const i = required.findIndex((r) => r.token.equals(amount.token));
+    if (i < 0) required.push(amount);
+    else required[i] = required[i].plus(amount.amount);
+  }
+  for (const amount of required) {
+    const balance = await amount.token.getBalance(getMultiProvider(), sender);
+    if (balance.amount < amount.amount)
+      return `Insufficient balance, batch needs ${amount.getDecimalFormattedAmount()} ${amount.token.symbol}`;
+  }
+  return null;
+}
+
+// Sends the rows one after another, each through the regular transfer pipeline
+export function useBatchTransfer() {
+  const { addTransfer, updateTransferStatus, addSubmittedTx } = useStore((s) => ({
+    addTransfer: s.addTransfer,
+    updateTransferStatus: s.updateTransferStatus,
+    addSubmittedTx: s.addSubmittedTx,
+  }));
+  const activeAccounts = useAccounts();
+  const activeChains = useActiveChains();
+  const transactionFns = useTransactionFns();
+
+  const [isLoading, setIsLoading] = useState(false);
+
+  const sendRow = useCallback(
+    async (row: BatchRow, values: TransferFormValues, onUpdate: BatchRowUpdateFn) => {
+      // Read the latest length since earlier rows have been added in the meantime
+      const transferIndex = useStore.getState().transfers.length;
+      onUpdate({ transferIndex, status: TransferStatus.Preparing });
+      const status = await executeTransfer({
+        values: { ...values, recipient: row.recipient, amount: row.amount },
+        transferIndex,
+        activeAccounts,
+        activeChains,
+        transactionFns,
+        addTransfer,
+        updateTransferStatus,
+        addSubmittedTx,
+        setIsLoading: () => {},
+      });
+      // Transfers that fail during preparation never get added to the store
+      const isAdded = useStore.getState().transfers.length > transferIndex;
+      onUpdate({ transferIndex: isAdded ? transferIndex : undefined, status });
+      return status;
+    },
+    [
+      activeAccounts,
+      activeChains,
+      transactionFns,
+      addTransfer,
+      updateTransferStatus,
+      addSubmittedTx,
+    ],
+  );
+
+  const sendRows = useCallback(
+    async (
+      rows: BatchRow[],
+      values: TransferFormValues,
+      onUpdateRow: (rowIndex: number, update: Partial<BatchRow>) => void,
+    ) => {
+      setIsLoading(true);
+      let numFailed = 0;
+      for (let i = 0; i < rows.length; i++) {
+        const status = await sendRow(rows[i], values, (update) => onUpdateRow(i, update));
+        if (status === TransferStatus.Failed || status === TransferStatus.Cancelled) numFailed++;
+      }
+      setIsLoading(false);
+      return numFailed;
+    },
+    [sendRow],
+  );
+
+  const retryRow = useCallback(
+    async (row: BatchRow, values: TransferFormValues, onUpdate: BatchRowUpdateFn) => {
+      setIsLoading(true);
+      const status = await sendRow(row, values, onUpdate);
+      setIsLoading(false);
+      return status;
+    },
+    [sendRow],
+  );
+
+  return { isLoading, sendRows, retryRow };
+}
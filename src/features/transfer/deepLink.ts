@@ -0,0 +1,130 @@
+import { IToken } from '@hyperlane-xyz/sdk';
+import { isValidAddress } from '@hyperlane-xyz/utils';
+
+import { getIndexForToken, getTokenByIndex, getTokens, getWarpCore } from '../../context/context';
+import { getChainDisplayName, tryGetChainProtocol } from '../chains/utils';
+
+import { TransferFormValues } from './types';
+
+// Query params of links like /?origin=ethereum&destination=solanamainnet&token=USDC&amount=100
+export enum DeepLinkParam {
+  Origin = 'origin',
+  Destination = 'destination',
+  Token = 'token',
+  Amount = 'amount',
+  Recipient = 'recipient',
+}
+
+const AMOUNT_REGEX = /^\d*\.?\d+$/;
+
+// Parses deep link params over the default form values
+// Invalid params are skipped and reported in errors
+export function parseDeepLink(
+  search: string,
+  defaults: TransferFormValues,
+): {
+  values: TransferFormValues;
+  errors: string[];
+} {
+  const params = new URLSearchParams(search);
+  const get = (p: DeepLinkParam) => params.get(p)?.trim() || undefined;
+  const values: Partial<TransferFormValues> = {};
+  const errors: string[] = [];
+
+  const chains = getWarpCore().getTokenChains();
+  const origin = get(DeepLinkParam.Origin);
+  if (origin && chains.includes(origin)) values.origin = origin;
+  else if (origin) errors.push(`Unsupported origin chain ${origin}`);
+
+  const destination = get(DeepLinkParam.Destination);
+  const tokenId = get(DeepLinkParam.Token);
+  if (destination && !chains.includes(destination)) {
+    errors.push(`Unsupported destination chain ${destination}`);
+  } else if (destination && destination === values.origin) {
+    errors.push('Origin and destination chains must differ');
+  } else if (destination) {
+    values.destination = destination;
+  }
+
+  if (tokenId || values.origin || values.destination) {
+    const token = findDeepLinkToken(values.origin, values.destination, tokenId);
+    if (token) {
+      values.tokenIndex = getIndexForToken(token);
+      values.origin = token.chainName;
+      // Default to the token's first route when no valid destination was given
+      values.destination ||= token.connections?.[0]?.token.chainName;
+    } else {
+      errors.push(getNoTokenError(values, tokenId));
+      // The chains and token must form a valid route, so use the defaults for all of them
+      delete values.origin;
+      delete values.destination;
+    }
+  }
+
+  const amount = get(DeepLinkParam.Amount);
+  if (amount && AMOUNT_REGEX.test(amount) && parseFloat(amount) > 0) values.amount = amount;
+  else if (amount) errors.push(`Invalid amount ${amount}`);
+
+  const recipient = get(DeepLinkParam.Recipient);
+  const destProtocol = tryGetChainProtocol(values.destination || defaults.destination);
+  if (recipient && destProtocol && isValidAddress(recipient, destProtocol))
+    values.recipient = recipient;
+  else if (recipient) errors.push(`Invalid recipient ${recipient}`);
+
+  return { values: { ...defaults, ...values }, errors };
+}
+
+// Inverse of parseDeepLink, empty values are omitted
+export function getDeepLinkQuery(values: TransferFormValues): Record<string, string> {
+  const { origin, destination, tokenIndex, amount, recipient } = values;
+  const query: Record<string, string> = {};
+  if (origin) query[DeepLinkParam.Origin] = origin;
+  if (destination) query[DeepLinkParam.Destination] = destination;
+  const token = getTokenByIndex(tokenIndex);
+  if (token) query[DeepLinkParam.Token] = getTokenParam(token, destination);
+  if (amount) query[DeepLinkParam.Amount] = amount;
+  if (recipient) query[DeepLinkParam.Recipient] = recipient;
+  return query;
+}
+
+export function hasDeepLinkParams(search: string) {
+  const params = new URLSearchParams(search);
+  return Object.values(DeepLinkParam).some((p) => params.has(p));
+}
+
+// Matches the token param against symbols (case-insensitive) or addresses/denoms
+function findDeepLinkToken(origin?: ChainName, destination?: ChainName, tokenId?: string) {
+  const candidates = getTokens().filter(
+    (t) =>
+      (!origin || t.chainName === origin) &&
+      (!destination || !!t.getConnectionForChain(destination)) &&
+      (!tokenId || matchesTokenParam(t, tokenId)),
+  );
+  return candidates[0] as IToken | undefined;
+}
+
+function matchesTokenParam(token: IToken, tokenId: string) {
+  return (
+    token.symbol.toLowerCase() === tokenId.toLowerCase() ||
+    token.addressOrDenom.toLowerCase() === tokenId.toLowerCase()
+  );
+}
+
+// Symbols are more readable but addresses are needed when a symbol is ambiguous
+function getTokenParam(token: IToken, destination?: ChainName) {
+  const sameSymbol = getTokens().filter(
+    (t) =>
+      t.chainName === token.chainName &&
+      t.symbol.toLowerCase() === token.symbol.toLowerCase() &&
+      (!destination || !!t.getConnectionForChain(destination)),
+  );
+  return sameSymbol.length > 1 ? token.addressOrDenom : token.symbol;
+}
+
+function getNoTokenError(values: Partial<TransferFormValues>, tokenId?: string) {
+  const { origin, destination } = values;
+  const from = origin ? ` from ${getChainDisplayName(origin)}` : '';
+  const to = destination ? ` to ${getChainDisplayName(destination)}` : '';
+  if (tokenId) return `Token ${tokenId} is not available${from}${to}`;
+  return `No token route found${from}${to}`;
+}
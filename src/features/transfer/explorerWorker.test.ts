@@ -0,0 +1,171 @@
+import { TransferContext, TransferStatus } from './types';
+
+let mockTransfers: Partial<TransferContext>[] = [];
+const mockUpdateTransferStatus = jest.fn();
+
+jest.mock('../store', () => ({
+  useStore: {
+    getState: () => ({ transfers: mockTransfers, updateTransferStatus: mockUpdateTransferStatus }),
+  },
+}));
+
+jest.mock('../../consts/config', () => ({
+  config: { explorerGraphqlUrl: 'http://localhost:8080/v1/graphql' },
+}));
+
+jest.mock('../chains/utils', () => ({
+  tryGetChainMetadata: () => null,
+  tryGetChainProtocol: () => 'ethereum',
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { debug: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const TICK = 5_000;
+const { setImmediate: realSetImmediate } = jest.requireActual<typeof import('timers')>('timers');
+const fetchMock = jest.fn();
+
+let worker: typeof import('./explorerWorker');
+
+function createTransfer(msgId?: string, status = TransferStatus.ConfirmedTransfer) {
+  return { msgId, status, destination: 'ethereum', timestamp: 1_000 };
+}
+
+function mockExplorerResponse(messages: object[]) {
+  fetchMock.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ data: { message_view: messages } }),
+  });
+}
+
+function getQueriedMsgIds(call: number): string[] {
+  return JSON.parse(fetchMock.mock.calls[call][1].body).variables.msgIds;
+}
+
+// Fires the worker interval and lets the request it starts settle
+async function tick(ms = TICK) {
+  await jest.advanceTimersByTimeAsync(ms);
+  await new Promise(realSetImmediate);
+}
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  // Reload the module so backoff state doesn't leak between tests
+  jest.resetModules();
+  worker = await import('./explorerWorker');
+  mockTransfers = [];
+  mockUpdateTransferStatus.mockReset();
+  fetchMock.mockReset();
+  global.fetch = fetchMock;
+});
+
+afterEach(() => {
+  worker.stopExplorerWorker();
+  jest.useRealTimers();
+});
+
+describe('explorerWorker', () => {
+  it('marks sent transfers as delivered with their destination details', async () => {
+    mockTransfers = [createTransfer('0xAB01')];
+    mockExplorerResponse([
+      {
+        msg_id: '\\xab01',
+        is_delivered: true,
+        destination_tx_hash: '\\x1234',
+        send_occurred_at: '2024-01-01T00:00:00',
+        delivery_occurred_at: '2024-01-01T00:01:00',
+      },
+    ]);
+    worker.startExplorerWorker();
+    await tick();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/graphql');
+    expect(getQueriedMsgIds(0)).toEqual(['\\xab01']);
+    expect(mockUpdateTransferStatus).toHaveBeenCalledWith(
+      0,
+      TransferStatus.Delivered,
+      expect.objectContaining({ destinationTxHash: '0x1234', deliveryLatency: 60_000 }),
+    );
+  });
+
+  it('only polls transfers awaiting delivery or destination details', async () => {
+    mockTransfers = [
+      createTransfer('0x01', TransferStatus.ConfirmedTransfer),
+      createTransfer('0x02', TransferStatus.Delivered),
+      { ...createTransfer('0x03', TransferStatus.Delivered), destinationTxHash: '0x1234' },
+      createTransfer('0x04', TransferStatus.Failed),
+      createTransfer('0x05', TransferStatus.ConfirmingTransfer),
+      createTransfer(undefined, TransferStatus.ConfirmedTransfer),
+    ];
+    mockExplorerResponse([]);
+    worker.startExplorerWorker();
+    await tick();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getQueriedMsgIds(0)).toEqual(['\\x01', '\\x02']);
+  });
+
+  it('backs off undelivered messages', async () => {
+    mockTransfers = [createTransfer('0x01')];
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ data: { message_view: [] } }) });
+    worker.startExplorerWorker();
+
+    await tick(); // 5s, first poll, next one after 10s
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await tick(); // 10s
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await tick(); // 15s, second poll, next one after 20s
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await tick(3 * TICK); // 30s
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await tick(); // 35s
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(mockUpdateTransferStatus).not.toHaveBeenCalled();
+  });
+
+  it('backs off delivered messages until the destination tx is indexed', async () => {
+    mockTransfers = [createTransfer('0x01', TransferStatus.Delivered)];
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { message_view: [{ msg_id: '\\x01', is_delivered: true }] } }),
+    });
+    worker.startExplorerWorker();
+
+    await tick();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockUpdateTransferStatus).toHaveBeenCalledWith(
+      0,
+      TransferStatus.Delivered,
+      expect.objectContaining({ destinationTxHash: undefined }),
+    );
+    await tick();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await tick();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off all messages when the request fails', async () => {
+    mockTransfers = [createTransfer('0x01'), createTransfer('0x02')];
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 500 });
+    worker.startExplorerWorker();
+
+    await tick();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await tick();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockUpdateTransferStatus).not.toHaveBeenCalled();
+  });
+
+  it('queries at most 100 messages per request', async () => {
+    mockTransfers = Array.from({ length: 150 }, (_, i) => createTransfer(`0x${i + 1000}`));
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ data: { message_view: [] } }) });
+    worker.startExplorerWorker();
+    await tick();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getQueriedMsgIds(0)).toHaveLength(100);
+    expect(getQueriedMsgIds(1)).toHaveLength(50);
+  });
+});
@@ -0,0 +1,220 @@
+import { z } from 'zod';
+
+import { ProtocolType, bufferToBase58, bytesToProtocolAddress } from '@hyperlane-xyz/utils';
+
+import { config } from '../../consts/config';
+import { logger } from '../../utils/logger';
+import { tryGetChainMetadata, tryGetChainProtocol } from '../chains/utils';
+import { useStore } from '../store';
+
+import { TransferContext, TransferDeliveryDetails, TransferStatus } from './types';
+
+const TICK_INTERVAL = 5_000; // 5s
+const MIN_POLL_DELAY = 5_000; // 5s
+const MAX_POLL_DELAY = 300_000; // 5m
+const MAX_MSGS_PER_QUERY = 100;
+
+const MESSAGES_QUERY = `
+  query TransferMessages($msgIds: [bytea!]) {
+    message_view(where: { msg_id: { _in: $msgIds } }, limit: ${MAX_MSGS_PER_QUERY}) {
+      msg_id
+      is_delivered
+      destination_tx_hash
+      destination_tx_sender
+      destination_tx_gas_used
+      destination_tx_effective_gas_price
+      send_occurred_at
+      delivery_occurred_at
+    }
+  }
+`;
+
+const ExplorerMessageSchema = z.object({
+  msg_id: z.string(),
+  is_delivered: z.boolean(),
+  destination_tx_hash: z.string().nullish(),
+  destination_tx_sender: z.string().nullish(),
+  destination_tx_gas_used: z.union([z.string(), z.number()]).nullish(),
+  destination_tx_effective_gas_price: z.union([z.string(), z.number()]).nullish(),
+  send_occurred_at: z.string().nullish(),
+  delivery_occurred_at: z.string().nullish(),
+});
+
+const ExplorerResponseSchema = z.object({
+  data: z.object({ message_view: z.array(ExplorerMessageSchema) }).optional(),
+  errors: z.array(z.object({ message: z.string() })).optional(),
+});
+
+type ExplorerMessage = z.infer<typeof ExplorerMessageSchema>;
+
+// Per message backoff state, reset when the page reloads
+const pollStates = new Map<string, { attempts: number; nextPollAt: number }>();
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let isPolling = false;
+
+// Polls the Hyperlane explorer for the delivery of all pending transfers
+// Runs outside of React so it can be shared by the whole app, returns a stop function
+export function startExplorerWorker() {
+  if (!timer) {
+    logger.debug('Starting explorer worker');
+    timer = setInterval(() => {
+      pollPendingTransfers().catch((error) => logger.warn('Explorer worker error', error));
+    }, TICK_INTERVAL);
+  }
+  return stopExplorerWorker;
+}
+
+export function stopExplorerWorker() {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
+
+async function pollPendingTransfers() {
+  // Skip ticks while a slow request is still in flight
+  if (isPolling) return;
+  const now = Date.now();
+  const due = getPendingMsgIds().filter((msgId) => (pollStates.get(msgId)?.nextPollAt || 0) <= now);
+  if (!due.length) return;
+
+  isPolling = true;
+  try {
+    // Query in batches so no message is cut off by the query limit
+    for (let i = 0; i < due.length; i += MAX_MSGS_PER_QUERY) {
+      await pollMessages(due.slice(i, i + MAX_MSGS_PER_QUERY));
+    }
+  } finally {
+    isPolling = false;
+  }
+}
+
+async function pollMessages(msgIds: string[]) {
+  try {
+    const messages = await fetchExplorerMessages(msgIds);
+    const delivered = new Set<string>();
+    for (const message of messages) {
+      if (!message.is_delivered) continue;
+      const msgId = byteaToHex(message.msg_id);
+      delivered.add(msgId);
+      onMessageDelivered(msgId, message);
+    }
+    msgIds.filter((msgId) => !delivered.has(msgId)).forEach(backOff);
+  } catch (error) {
+    logger.warn('Error querying explorer for messages', error);
+    msgIds.forEach(backOff);
+  }
+}
+
+// Sent transfers awaiting delivery, plus those marked delivered by the on-chain
+// check that still lack the destination details, see useDeliveryTracker
+function getPendingMsgIds() {
+  return useStore
+    .getState()
+    .transfers.filter(
+      (t) =>
+        !!t.msgId &&
+        (t.status === TransferStatus.ConfirmedTransfer ||
+          (t.status === TransferStatus.Delivered && !t.destinationTxHash)),
+    )
+    .map((t) => t.msgId!.toLowerCase());
+}
+
+function backOff(msgId: string) {
+  const attempts = (pollStates.get(msgId)?.attempts || 0) + 1;
+  const delay = Math.min(MIN_POLL_DELAY * 2 ** attempts, MAX_POLL_DELAY);
+  pollStates.set(msgId, { attempts, nextPollAt: Date.now() + delay });
+}
+
+function onMessageDelivered(msgId: string, message: ExplorerMessage) {
+  // Keep polling with backoff until the explorer has indexed the destination tx
+  if (message.destination_tx_hash) pollStates.delete(msgId);
+  else backOff(msgId);
+  const { transfers, updateTransferStatus } = useStore.getState();
+  const index = transfers.findIndex((t) => t.msgId?.toLowerCase() === msgId);
+  if (index < 0) return;
+  logger.debug('Explorer reports message delivered for transfer', msgId);
+  updateTransferStatus(
+    index,
+    TransferStatus.Delivered,
+    getDeliveryDetails(message, transfers[index]),
+  );
+}
+
+function getDeliveryDetails(
+  message: ExplorerMessage,
+  transfer: TransferContext,
+): TransferDeliveryDetails {
+  const {
+    destination_tx_hash,
+    destination_tx_sender,
+    destination_tx_gas_used,
+    destination_tx_effective_gas_price,
+    send_occurred_at,
+    delivery_occurred_at,
+  } = message;
+  const sentAt = send_occurred_at ? parseExplorerTimestamp(send_occurred_at) : undefined;
+  const deliveredAt = delivery_occurred_at
+    ? parseExplorerTimestamp(delivery_occurred_at)
+    : undefined;
+  const destinationGasPaid =
+    destination_tx_gas_used && destination_tx_effective_gas_price
+      ? (BigInt(destination_tx_gas_used) * BigInt(destination_tx_effective_gas_price)).toString()
+      : undefined;
+  return {
+    destinationTxHash: destination_tx_hash
+      ? formatTxHash(destination_tx_hash, transfer)
+      : undefined,
+    relayer: destination_tx_sender ? formatAddress(destination_tx_sender, transfer) : undefined,
+    destinationGasPaid,
+    deliveredAt,
+    // Prefer the origin block time over the local submission time
+    deliveryLatency: deliveredAt ? deliveredAt - (sentAt || transfer.timestamp) : undefined,
+  };
+}
+
+async function fetchExplorerMessages(msgIds: string[]): Promise<ExplorerMessage[]> {
+  const res = await fetch(config.explorerGraphqlUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: MESSAGES_QUERY,
+      variables: { msgIds: msgIds.map(hexToBytea) },
+    }),
+  });
+  if (!res.ok) throw new Error(`Explorer request failed: ${res.status}`);
+  const result = ExplorerResponseSchema.parse(await res.json());
+  if (result.errors?.length) throw new Error(`Explorer query failed: ${result.errors[0].message}`);
+  return result.data?.message_view || [];
+}
+
+// The explorer stores hashes and ids as Postgres bytea values, e.g. \x1234
+function hexToBytea(hex: string) {
+  return `\\x${hex.replace(/^0x/i, '')}`;
+}
+
+function byteaToHex(bytea: string) {
+  return `0x${bytea.replace(/^\\x/, '')}`.toLowerCase();
+}
+
+// Tx hashes are stored as raw bytes, convert them to the destination chain's format
+function formatTxHash(bytea: string, transfer: TransferContext) {
+  const hex = bytea.replace(/^\\x/, '');
+  const protocol = tryGetChainProtocol(transfer.destination);
+  if (protocol === ProtocolType.Sealevel) return bufferToBase58(Buffer.from(hex, 'hex'));
+  if (protocol === ProtocolType.Cosmos) return hex.toUpperCase();
+  return `0x${hex}`;
+}
+
+function formatAddress(bytea: string, transfer: TransferContext) {
+  const bytes = Buffer.from(bytea.replace(/^\\x/, ''), 'hex');
+  const metadata = tryGetChainMetadata(transfer.destination);
+  if (!metadata) return `0x${bytes.toString('hex')}`;
+  return bytesToProtocolAddress(bytes, metadata.protocol, metadata.bech32Prefix);
+}
+
+// Explorer timestamps are UTC without a timezone suffix
+function parseExplorerTimestamp(value: string) {
+  const timestamp = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`).getTime();
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
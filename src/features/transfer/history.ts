@@ -0,0 +1,186 @@
+import { z } from 'zod';
+
+import { getMultiProvider, tryFindToken } from '../../context/context';
+import { downloadFile, parseCsv, toCsv } from '../../utils/file';
+import { getHypExplorerLink } from '../../utils/links';
+import { logger } from '../../utils/logger';
+import { getChainDisplayName } from '../chains/utils';
+
+import { FinalTransferStatuses, TransferContext, TransferStatus } from './types';
+
+// Increment this when the export format has breaking changes
+export const TRANSFER_HISTORY_VERSION = 1;
+
+const TransferFieldsSchema = z.object({
+  status: z.nativeEnum(TransferStatus),
+  origin: z.string().min(1),
+  destination: z.string().min(1),
+  originTokenAddressOrDenom: z.string().optional(),
+  destTokenAddressOrDenom: z.string().optional(),
+  amount: z.string(),
+  sender: z.string(),
+  recipient: z.string(),
+  originTxHash: z.string().optional(),
+  msgId: z.string().optional(),
+  timestamp: z.number(),
+  destinationTxHash: z.string().optional(),
+  deliveredAt: z.number().optional(),
+  relayer: z.string().optional(),
+  destinationGasPaid: z.string().optional(),
+  deliveryLatency: z.number().optional(),
+});
+
+// Multi-hop transfers include their legs, which are transfers of their own
+const TransferContextSchema = TransferFieldsSchema.extend({
+  legs: z.array(TransferFieldsSchema).optional(),
+});
+
+const TransferHistorySchema = z.object({
+  version: z.literal(TRANSFER_HISTORY_VERSION),
+  exportedAt: z.number().optional(),
+  transfers: z.array(TransferContextSchema.passthrough()),
+});
+
+// Columns of the CSV export, the first set maps directly to TransferContext fields
+const CSV_CONTEXT_COLUMNS = [
+  'timestamp',
+  'status',
+  'origin',
+  'destination',
+  'originTokenAddressOrDenom',
+  'destTokenAddressOrDenom',
+  'amount',
+  'sender',
+  'recipient',
+  'originTxHash',
+  'msgId',
+] as const;
+const CSV_DETAIL_COLUMNS = [
+  'date',
+  'originDisplayName',
+  'destinationDisplayName',
+  'tokenSymbol',
+  'originTxUrl',
+  'messageUrl',
+] as const;
+
+interface TransferDetails {
+  date: string;
+  originDisplayName: string;
+  destinationDisplayName: string;
+  tokenSymbol: string;
+  originTxUrl: string;
+  messageUrl: string;
+}
+
+export function getTransferDetails(transfer: TransferContext): TransferDetails {
+  const { origin, destination, originTokenAddressOrDenom, originTxHash, msgId, timestamp } =
+    transfer;
+  const token = tryFindToken(origin, originTokenAddressOrDenom);
+  const originTxUrl = originTxHash
+    ? getMultiProvider().tryGetExplorerTxUrl(origin, { hash: originTxHash })
+    : null;
+  return {
+    date: new Date(timestamp).toISOString(),
+    originDisplayName: getChainDisplayName(origin),
+    destinationDisplayName: getChainDisplayName(destination),
+    tokenSymbol: token?.symbol || '',
+    originTxUrl: originTxUrl || '',
+    messageUrl: getHypExplorerLink(origin, msgId) || '',
+  };
+}
+
+export function transfersToCsv(transfers: TransferContext[]) {
+  const rows = transfers.map((t) => {
+    const details = getTransferDetails(t);
+    return [...CSV_CONTEXT_COLUMNS.map((c) => t[c]), ...CSV_DETAIL_COLUMNS.map((c) => details[c])];
+  });
+  return toCsv([...CSV_CONTEXT_COLUMNS, ...CSV_DETAIL_COLUMNS], rows);
+}
+
+export function transfersToJson(transfers: TransferContext[]) {
+  const history = {
+    version: TRANSFER_HISTORY_VERSION,
+    exportedAt: Date.now(),
+    // Includes the legs of multi-hop transfers, see TransferContextSchema
+    transfers: transfers.map((t) => ({ ...t, ...getTransferDetails(t) })),
+  };
+  return JSON.stringify(history, null, 2);
+}
+
+export function exportTransferHistory(transfers: TransferContext[], format: 'csv' | 'json') {
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'csv') {
+    downloadFile(`transfer-history-${date}.csv`, transfersToCsv(transfers), 'text/csv');
+  } else {
+    downloadFile(`transfer-history-${date}.json`, transfersToJson(transfers), 'application/json');
+  }
+}
+
+// Parses an exported history file (JSON or CSV) back into transfer contexts
+// Throws if the content is not a valid history export
+export function parseTransferHistory(content: string): TransferContext[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) return parseJsonHistory(trimmed);
+  else return parseCsvHistory(trimmed);
+}
+
+function parseJsonHistory(content: string): TransferContext[] {
+  const result = TransferHistorySchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    logger.warn('Invalid transfer history file', result.error);
+    throw new Error('Invalid transfer history file');
+  }
+  // Strip the export-only detail fields
+  return result.data.transfers.map((t) => TransferContextSchema.parse(t));
+}
+
+function parseCsvHistory(content: string): TransferContext[] {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers || !CSV_CONTEXT_COLUMNS.every((c) => headers.includes(c)))
+    throw new Error('Invalid transfer history file, missing required columns');
+  return rows.map((row, i) => {
+    const values = headers.reduce<Record<string, string>>((acc, header, j) => {
+      if (row[j]) acc[header] = row[j];
+      return acc;
+    }, {});
+    const result = TransferContextSchema.safeParse({
+      ...values,
+      timestamp: Number(values.timestamp),
+    });
+    if (!result.success) {
+      logger.warn(`Invalid transfer history row ${i + 1}`, result.error);
+      throw new Error(`Invalid transfer history row ${i + 1}`);
+    }
+    return result.data;
+  });
+}
+
+// Returns the transfers from the imported list that aren't already known
+// Transfers are considered the same if their origin tx hashes or message ids match
+export function getNewTransfers(existing: TransferContext[], imported: TransferContext[]) {
+  const knownIds = new Set(existing.map(getTransferIds).flat());
+  const newTransfers: TransferContext[] = [];
+  for (const transfer of imported) {
+    const ids = getTransferIds(transfer);
+    if (ids.some((id) => knownIds.has(id))) continue;
+    ids.forEach((id) => knownIds.add(id));
+    newTransfers.push({ ...toFinalTransfer(transfer), legs: transfer.legs?.map(toFinalTransfer) });
+  }
+  return newTransfers;
+}
+
+// Transfers that were in progress at export time cannot be resumed
+function toFinalTransfer(transfer: TransferContext): TransferContext {
+  if (FinalTransferStatuses.includes(transfer.status)) return transfer;
+  return { ...transfer, status: TransferStatus.Failed };
+}
+
+function getTransferIds({ originTxHash, msgId, timestamp, origin, sender }: TransferContext) {
+  const ids: string[] = [];
+  if (originTxHash) ids.push(`tx:${originTxHash.toLowerCase()}`);
+  if (msgId) ids.push(`msg:${msgId.toLowerCase()}`);
+  // Transfers that never got submitted have neither, fall back to other identifying fields
+  if (!ids.length) ids.push(`local:${origin}|${sender}|${timestamp}`);
+  return ids;
+}
@@ -0,0 +1,126 @@
+import { PublicKey } from '@solana/web3.js';
+import { useQuery } from '@tanstack/react-query';
+
+import { ProtocolType, isValidAddress } from '@hyperlane-xyz/utils';
+
+import { COSMOS_ZERO_ADDRESS, EVM_ZERO_ADDRESS, SOL_ZERO_ADDRESS } from '../../consts/values';
+import { getMultiProvider, getTokens } from '../../context/context';
+import { logger } from '../../utils/logger';
+import { isSameAddress } from '../addressBook/addressBook';
+import { getChainDisplayName, tryGetChainMetadata } from '../chains/utils';
+
+import { TransferFormValues } from './types';
+
+export enum RecipientRiskLevel {
+  // Worth a second look but often intended, e.g. a smart contract wallet
+  Medium = 'medium',
+  // Funds will likely be lost, sending requires an explicit acknowledgement
+  High = 'high',
+}
+
+export interface RecipientRisk {
+  level: RecipientRiskLevel;
+  message: string;
+}
+
+const ZERO_ADDRESSES = [EVM_ZERO_ADDRESS, SOL_ZERO_ADDRESS, COSMOS_ZERO_ADDRESS];
+
+export function useRecipientRisks({ destination, recipient }: TransferFormValues) {
+  const { isInitialLoading, data } = useQuery({
+    queryKey: ['useRecipientRisks', destination, recipient],
+    queryFn: () => analyzeRecipient(destination, recipient.trim()),
+    enabled: !!destination && !!recipient,
+    staleTime: Infinity,
+  });
+  const risks = data || [];
+  return {
+    // Disabled queries also count as loading in react-query v4
+    isLoading: isInitialLoading,
+    risks,
+    hasHighRisk: risks.some((r) => r.level === RecipientRiskLevel.High),
+  };
+}
+
+// Checks for recipients that are valid addresses but unlikely to be able to use the tokens
+async function analyzeRecipient(
+  destination: ChainName,
+  recipient: Address,
+): Promise<RecipientRisk[]> {
+  const metadata = tryGetChainMetadata(destination);
+  if (!metadata || !isValidAddress(recipient, metadata.protocol)) return [];
+  const { protocol } = metadata;
+  const chainName = getChainDisplayName(destination);
+  const risks: RecipientRisk[] = [];
+
+  if (ZERO_ADDRESSES.some((zero) => isSameAddress(zero, recipient, protocol))) {
+    risks.push({
+      level: RecipientRiskLevel.High,
+      message: 'Recipient is the zero address, tokens sent to it are lost',
+    });
+  }
+
+  // Router and collateral contracts don't credit tokens sent to them to anyone
+  const isRouteContract = getTokens().some(
+    (t) =>
+      t.chainName === destination &&
+      [t.addressOrDenom, t.collateralAddressOrDenom].some(
+        (a) => !!a && isSameAddress(a, recipient, protocol),
+      ),
+  );
+  if (isRouteContract) {
+    risks.push({
+      level: RecipientRiskLevel.High,
+      message: `Recipient is a token or warp route contract on ${chainName}`,
+    });
+  }
+
+  if (protocol === ProtocolType.Cosmos && metadata.bech32Prefix) {
+    // The prefix is everything before the last separator
+    const prefix = recipient.slice(0, recipient.lastIndexOf('1'));
+    if (prefix !== metadata.bech32Prefix) {
+      risks.push({
+        level: RecipientRiskLevel.High,
+        message: `Address prefix ${prefix} doesn't match ${chainName} (${metadata.bech32Prefix})`,
+      });
+    }
+  }
+
+  try {
+    risks.push(...(await analyzeRecipientAccount(destination, protocol, recipient)));
+  } catch (error) {
+    // The lookups are advisory, a failing RPC shouldn't block the transfer
+    logger.warn('Error looking up recipient account', destination, error);
+  }
+  return risks;
+}
+
+async function analyzeRecipientAccount(
+  destination: ChainName,
+  protocol: ProtocolType,
+  recipient: Address,
+): Promise<RecipientRisk[]> {
+  const multiProvider = getMultiProvider();
+  if (protocol === ProtocolType.Ethereum) {
+    const client = multiProvider.getViemProvider(destination);
+    const code = await client.getBytecode({ address: recipient as `0x${string}` });
+    if (!code || code === '0x') return [];
+    return [
+      {
+        level: RecipientRiskLevel.Medium,
+        message:
+          'Recipient is a contract, make sure it can handle these tokens (e.g. a multisig wallet)',
+      },
+    ];
+  } else if (protocol === ProtocolType.Sealevel) {
+    const connection = multiProvider.getSolanaWeb3Provider(destination);
+    const account = await connection.getAccountInfo(new PublicKey(recipient));
+    if (!account?.executable) return [];
+    return [
+      {
+        level: RecipientRiskLevel.High,
+        message: 'Recipient is a program account, not a wallet',
+      },
+    ];
+  }
+  return [];
+}
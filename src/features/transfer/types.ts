@@ -1,3 +1,5 @@
+import { ProviderType, TokenAmount, WarpTxCategory } from '@hyperlane-xyz/sdk';
+
 export interface TransferFormValues {
   origin: ChainName;
   destination: ChainName;
@@ -6,22 +8,56 @@ export interface TransferFormValues {
   recipient: Address;
 }
 
+// Fees of a transfer as shown in the review step, see useFeeQuotes
+export interface FeeQuote {
+  interchainQuote: TokenAmount;
+  localQuote: TokenAmount;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
 export enum TransferStatus {
   Preparing = 'preparing',
   CreatingTxs = 'creating-txs',
   SigningApprove = 'signing-approve',
   ConfirmingApprove = 'confirming-approve',
+  // Approval confirmed before a reload interrupted the flow, transfer tx still required
+  AwaitingResume = 'awaiting-resume',
   SigningTransfer = 'signing-transfer',
   ConfirmingTransfer = 'confirming-transfer',
   ConfirmedTransfer = 'confirmed-transfer',
+  // Multi-hop only, a leg was sent and its funds have not reached the next chain yet
+  AwaitingHop = 'awaiting-hop',
   Delivered = 'delivered',
   Failed = 'failed',
+  Cancelled = 'cancelled',
 }
 
 export const SentTransferStatuses = [TransferStatus.ConfirmedTransfer, TransferStatus.Delivered];
 
 // Statuses considered not pending
-export const FinalTransferStatuses = [...SentTransferStatuses, TransferStatus.Failed];
+export const FinalTransferStatuses = [
+  ...SentTransferStatuses,
+  TransferStatus.Failed,
+  TransferStatus.Cancelled,
+];
+
+// Statuses during which no transfer tx has been broadcast yet
+export const CancellableTransferStatuses = [
+  TransferStatus.Preparing,
+  TransferStatus.CreatingTxs,
+  TransferStatus.SigningApprove,
+  TransferStatus.ConfirmingApprove,
+  TransferStatus.SigningTransfer,
+];
+
+// A tx that was broadcast as part of a transfer, persisted so the
+// transfer can be resumed if the page reloads before it confirms
+export interface SubmittedTx {
+  category: WarpTxCategory;
+  type: ProviderType;
+  hash: string;
+}
 
 export interface TransferContext {
   status: TransferStatus;
@@ -34,5 +70,21 @@ export interface TransferContext {
   recipient: Address;
   originTxHash?: string;
   msgId?: string;
+  submittedTxs?: SubmittedTx[];
   timestamp: number;
+  // Set once the message has been processed on the destination
+  destinationTxHash?: string;
+  deliveredAt?: number;
+  relayer?: Address;
+  // In wei of the destination chain's native token
+  destinationGasPaid?: string;
+  // In ms, from the origin tx to the destination tx
+  deliveryLatency?: number;
+  // Multi-hop only, the transfers of the route in order, see executeMultiHopTransfer
+  legs?: TransferContext[];
 }
+
+export type TransferDeliveryDetails = Pick<
+  TransferContext,
+  'destinationTxHash' | 'deliveredAt' | 'relayer' | 'destinationGasPaid' | 'deliveryLatency'
+>;
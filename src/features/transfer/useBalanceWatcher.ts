@@ -7,7 +7,7 @@ export function useRecipientBalanceWatcher(recipient?: Address, balance?: TokenA
   // A crude way to detect transfer completions by triggering
   // toast on recipient balance increase. This is not ideal because it
   // could confuse unrelated balance changes for message delivery
-  // TODO replace with a polling worker that queries the hyperlane explorer
+  // Transfer statuses are tracked separately, see explorerWorker
   const prevRecipientBalance = useRef<{ balance?: TokenAmount; recipient?: string }>({
     recipient: '',
   });
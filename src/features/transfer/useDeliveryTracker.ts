@@ -0,0 +1,113 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { CosmWasmCoreAdapter, SealevelCoreAdapter } from '@hyperlane-xyz/sdk';
+import { ProtocolType } from '@hyperlane-xyz/utils';
+
+import { getMultiProvider, getRegistry } from '../../context/context';
+import { logger } from '../../utils/logger';
+import { tryGetChainMetadata } from '../chains/utils';
+import { useStore } from '../store';
+
+import { TransferStatus } from './types';
+
+const DELIVERY_CHECK_INTERVAL = 10_000; // 10s
+
+const MAILBOX_DELIVERED_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'bytes32',
+        name: '_id',
+        type: 'bytes32',
+      },
+    ],
+    name: 'delivered',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Polls the destination mailboxes of sent transfers and
+// marks them as delivered once their message has been processed
+// Complements the explorer worker, which lags behind the chain and may not index every route
+export function useDeliveryTracker() {
+  const transfers = useStore((s) => s.transfers);
+
+  const pending = transfers
+    .filter((t) => t.status === TransferStatus.ConfirmedTransfer && !!t.msgId)
+    .map(({ msgId, origin, destination }) => ({ msgId: msgId!, origin, destination }));
+
+  useQuery({
+    queryKey: ['useDeliveryTracker', pending],
+    queryFn: async () => {
+      for (const { msgId, origin, destination } of pending) {
+        const isDelivered = await tryCheckIsDelivered(destination, msgId);
+        if (!isDelivered) continue;
+        // Look up the index when updating, the list may have changed during the checks
+        const state = useStore.getState();
+        const index = state.transfers.findIndex((t) => t.msgId === msgId && t.origin === origin);
+        if (index < 0 || state.transfers[index].status !== TransferStatus.ConfirmedTransfer)
+          continue;
+        logger.debug('Message delivered for transfer', msgId);
+        state.updateTransferStatus(index, TransferStatus.Delivered);
+      }
+      return true;
+    },
+    enabled: pending.length > 0,
+    refetchInterval: DELIVERY_CHECK_INTERVAL,
+  });
+}
+
+async function tryCheckIsDelivered(destination: ChainName, msgId: string) {
+  try {
+    const mailbox = await getMailboxAddress(destination);
+    if (!mailbox) {
+      logger.warn('No mailbox address found for chain', destination);
+      return false;
+    }
+    return await checkIsDelivered(destination, mailbox, msgId);
+  } catch (error) {
+    logger.warn(`Error checking delivery status on ${destination}`, error);
+    return false;
+  }
+}
+
+async function getMailboxAddress(chainName: ChainName): Promise<Address | undefined> {
+  // SVM chains may define their mailbox directly in the chain metadata
+  const metadata = tryGetChainMetadata(chainName) as { mailbox?: Address } | null;
+  if (metadata?.mailbox) return metadata.mailbox;
+  const addresses = await getRegistry().getChainAddresses(chainName);
+  return addresses?.mailbox;
+}
+
+async function checkIsDelivered(destination: ChainName, mailbox: Address, msgId: string) {
+  const multiProvider = getMultiProvider();
+  const protocol = multiProvider.getProtocol(destination);
+  if (protocol === ProtocolType.Ethereum) {
+    const client = multiProvider.getViemProvider(destination);
+    return client.readContract({
+      abi: MAILBOX_DELIVERED_ABI,
+      address: mailbox as `0x${string}`,
+      functionName: 'delivered',
+      args: [msgId as `0x${string}`],
+    });
+  } else if (protocol === ProtocolType.Sealevel) {
+    const pda = SealevelCoreAdapter.deriveMailboxMessageProcessedPda(mailbox, msgId);
+    const connection = multiProvider.getSolanaWeb3Provider(destination);
+    const accountInfo = await connection.getAccountInfo(pda);
+    return !!accountInfo;
+  } else if (protocol === ProtocolType.Cosmos) {
+    const adapter = new CosmWasmCoreAdapter(destination, multiProvider, { mailbox });
+    return adapter.delivered(msgId);
+  } else {
+    logger.warn('Unsupported protocol for delivery check', protocol);
+    return false;
+  }
+}
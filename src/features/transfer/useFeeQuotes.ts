@@ -1,16 +1,22 @@
 import { useQuery } from '@tanstack/react-query';
+import BigNumber from 'bignumber.js';
+import { useState } from 'react';
 
 import { TokenAmount } from '@hyperlane-xyz/sdk';
 import { HexString } from '@hyperlane-xyz/utils';
 
+import { config } from '../../consts/config';
 import { getTokenByIndex, getWarpCore } from '../../context/context';
 import { logger } from '../../utils/logger';
+import { useInterval } from '../../utils/timeout';
+import { planRoute } from '../routes/routePlanner';
 import { getAccountAddressAndPubKey, useAccounts } from '../wallet/hooks/multiProtocol';
 
-import { TransferFormValues } from './types';
+import { FeeQuote, TransferFormValues } from './types';
 
-const FEE_QUOTE_REFRESH_INTERVAL = 15_000; // 10s
+const FEE_QUOTE_TTL = 30_000; // 30s
 
+// Quotes are refetched when they expire rather than on a fixed interval
 export function useFeeQuotes(
   { origin, destination, tokenIndex }: TransferFormValues,
   enabled: boolean,
@@ -18,14 +24,34 @@ export function useFeeQuotes(
   const { accounts } = useAccounts();
   const { address: sender, publicKey: senderPubKey } = getAccountAddressAndPubKey(origin, accounts);
 
-  const { isLoading, isError, data } = useQuery({
+  const { isLoading, isFetching, isError, data } = useQuery({
     queryKey: ['useFeeQuotes', destination, tokenIndex, sender, senderPubKey],
     queryFn: () => fetchFeeQuotes(destination, tokenIndex, sender, senderPubKey),
     enabled,
-    refetchInterval: FEE_QUOTE_REFRESH_INTERVAL,
+    refetchInterval: (quote) => (quote ? Math.max(quote.expiresAt - Date.now(), 1000) : false),
   });
 
-  return { isLoading, isError, fees: data };
+  return { isLoading, isFetching, isError, fees: data };
+}
+
+// Seconds until the quote expires, updated every second while enabled
+// Without a quote (e.g. the estimate failed) there is nothing to expire
+export function useFeeQuoteCountdown(quote: FeeQuote | null | undefined, enabled: boolean) {
+  const [now, setNow] = useState(Date.now());
+  useInterval(() => setNow(Date.now()), enabled && quote ? 1000 : null);
+  if (!quote) return { secondsLeft: 0, isStale: false };
+  const secondsLeft = Math.max(Math.ceil((quote.expiresAt - now) / 1000), 0);
+  return { secondsLeft, isStale: secondsLeft === 0 };
+}
+
+// True if the current fee is higher than the reviewed one by more than the configured tolerance
+export function isFeeIncreaseAboveTolerance(reviewed: TokenAmount, current: TokenAmount) {
+  // A quote in a different token can't be compared, so it always needs a new review
+  if (reviewed.token.addressOrDenom !== current.token.addressOrDenom) return true;
+  const maxAmount = new BigNumber(reviewed.amount.toString()).times(
+    1 + config.feeQuoteTolerance / 100,
+  );
+  return new BigNumber(current.amount.toString()).gt(maxAmount);
 }
 
 async function fetchFeeQuotes(
@@ -33,14 +59,18 @@ async function fetchFeeQuotes(
   tokenIndex?: number,
   sender?: Address,
   senderPubKey?: Promise<HexString>,
-): Promise<{ interchainQuote: TokenAmount; localQuote: TokenAmount } | null> {
+): Promise<FeeQuote | null> {
   const originToken = getTokenByIndex(tokenIndex);
   if (!destination || !sender || !originToken) return null;
   logger.debug('Fetching fee quotes');
-  return getWarpCore().estimateTransferRemoteFees({
+  // Only the first leg of multi-hop routes is signed by the origin account up front
+  const firstLeg = planRoute(originToken, destination)?.[0];
+  const fees = await getWarpCore().estimateTransferRemoteFees({
     originToken,
-    destination,
+    destination: firstLeg?.destination || destination,
     sender,
     senderPubKey: await senderPubKey,
   });
+  const fetchedAt = Date.now();
+  return { ...fees, fetchedAt, expiresAt: fetchedAt + FEE_QUOTE_TTL };
 }
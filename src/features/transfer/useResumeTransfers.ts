@@ -0,0 +1,149 @@
+import { useEffect } from 'react';
+import { toast } from 'react-toastify';
+
+import { WarpTxCategory } from '@hyperlane-xyz/sdk';
+import { pollAsync } from '@hyperlane-xyz/utils';
+
+import { logger } from '../../utils/logger';
+import { getChainDisplayName } from '../chains/utils';
+import { AppState, useStore } from '../store';
+
+import { FinalTransferStatuses, SubmittedTx, TransferContext, TransferStatus } from './types';
+import { fetchSubmittedTxReceipt, tryGetMsgIdFromTransferReceipt } from './utils';
+
+const RECEIPT_POLL_DELAY = 5_000; // 5s
+const RECEIPT_POLL_ATTEMPTS = 60; // ~5 minutes
+
+// Module level so transfers are resumed once per session, switching registries remounts the app
+let didResume = false;
+
+// Picks up transfers that were interrupted by a page reload after
+// at least one of their txs was submitted, see failUnsubmittedTransfers
+export function useResumeTransfers() {
+  const { transfers, updateTransferStatus, updateTransferLegStatus } = useStore((s) => ({
+    transfers: s.transfers,
+    updateTransferStatus: s.updateTransferStatus,
+    updateTransferLegStatus: s.updateTransferLegStatus,
+  }));
+
+  useEffect(() => {
+    // Run once on load, transfers started afterwards are handled by executeTransfer
+    if (didResume) return;
+    didResume = true;
+    transfers.forEach((t, i) => {
+      if (FinalTransferStatuses.includes(t.status)) return;
+      // Multi-hop transfers keep their submitted txs on the legs
+      const resumed = t.legs?.length
+        ? resumeMultiHopTransfer(t, i, updateTransferStatus, updateTransferLegStatus)
+        : t.submittedTxs?.length
+          ? resumeTransfer(t, i, updateTransferStatus)
+          : null;
+      resumed?.catch((error) => logger.error('Error resuming transfer', error));
+    });
+  }, [transfers, updateTransferStatus, updateTransferLegStatus]);
+}
+
+async function resumeTransfer(
+  transfer: TransferContext,
+  index: number,
+  updateTransferStatus: AppState['updateTransferStatus'],
+) {
+  const { origin, submittedTxs } = transfer;
+  const lastTx = submittedTxs!.at(-1)!;
+  const isTransferTx = lastTx.category === WarpTxCategory.Transfer;
+  logger.debug(`Resuming transfer at index ${index} from ${lastTx.category} tx`, lastTx.hash);
+  updateTransferStatus(
+    index,
+    isTransferTx ? TransferStatus.ConfirmingTransfer : TransferStatus.ConfirmingApprove,
+  );
+
+  const result = await tryWaitForReceipt(origin, lastTx);
+  if (!result) return;
+
+  if (!result.isSuccess) {
+    logger.warn(`Submitted ${lastTx.category} tx failed`, lastTx.hash);
+    updateTransferStatus(index, TransferStatus.Failed);
+    return;
+  }
+
+  if (isTransferTx) {
+    const msgId = tryGetMsgIdFromTransferReceipt(origin, result.receipt);
+    updateTransferStatus(index, TransferStatus.ConfirmedTransfer, {
+      originTxHash: lastTx.hash,
+      msgId,
+    });
+    toast.success('Interrupted transfer was confirmed!');
+  } else {
+    // The approval landed but the transfer was never sent, the user must sign it
+    updateTransferStatus(index, TransferStatus.AwaitingResume);
+    toast.info('An interrupted transfer is ready to continue, see your transfer history.');
+  }
+}
+
+// Later legs need the user to sign them in the original flow, so a reload can't continue the
+// route. The current leg is confirmed and the transfer only completes if it was the last one.
+async function resumeMultiHopTransfer(
+  transfer: TransferContext,
+  index: number,
+  updateTransferStatus: AppState['updateTransferStatus'],
+  updateTransferLegStatus: AppState['updateTransferLegStatus'],
+) {
+  const legs = transfer.legs!;
+  const legIndex = legs.findLastIndex((l) => !!l.submittedTxs?.length);
+  if (legIndex < 0) {
+    updateTransferStatus(index, TransferStatus.Failed);
+    return;
+  }
+  const leg = legs[legIndex];
+  const lastTx = leg.submittedTxs!.at(-1)!;
+  logger.debug(`Resuming leg ${legIndex} of transfer at index ${index}`, lastTx.hash);
+
+  const result = await tryWaitForReceipt(leg.origin, lastTx);
+  if (!result) return;
+
+  const isSent = result.isSuccess && lastTx.category === WarpTxCategory.Transfer;
+  if (isSent) {
+    const msgId = tryGetMsgIdFromTransferReceipt(leg.origin, result.receipt);
+    const options = { originTxHash: lastTx.hash, msgId };
+    updateTransferLegStatus(index, legIndex, TransferStatus.ConfirmedTransfer, options);
+    if (leg.destination === transfer.destination) {
+      updateTransferStatus(index, TransferStatus.ConfirmedTransfer, options);
+      toast.success('Interrupted transfer was confirmed!');
+      return;
+    }
+  } else {
+    updateTransferLegStatus(index, legIndex, TransferStatus.Failed);
+  }
+
+  updateTransferStatus(index, TransferStatus.Failed);
+  // Funds that left the origin are in the user's account on the last chain they reached
+  const fundsChain = isSent ? leg.destination : legIndex > 0 ? leg.origin : null;
+  if (fundsChain)
+    toast.warn(
+      `A multi-hop transfer was interrupted, the funds sent so far are in your account on ${getChainDisplayName(fundsChain)}.`,
+    );
+  else toast.error('An interrupted multi-hop transfer could not be completed.');
+}
+
+// Returns null if the tx is still unconfirmed after polling
+// The tx was broadcast and may still land, e.g. on a congested chain, so the transfer stays
+// pending and is checked again the next time the app loads
+async function tryWaitForReceipt(chain: ChainName, tx: SubmittedTx) {
+  try {
+    return await pollAsync(
+      async () => {
+        const r = await fetchSubmittedTxReceipt(chain, tx);
+        if (!r) throw new Error('Transaction not yet confirmed');
+        return r;
+      },
+      RECEIPT_POLL_DELAY,
+      RECEIPT_POLL_ATTEMPTS,
+    );
+  } catch (error) {
+    logger.warn(`Unable to confirm tx ${tx.hash} on ${chain}`, error);
+    toast.warn(
+      `Interrupted transfer is not yet confirmed on ${getChainDisplayName(chain)}, it will be checked again on reload.`,
+    );
+    return null;
+  }
+}
@@ -1,13 +1,21 @@
 import { useCallback, useState } from 'react';
 import { toast } from 'react-toastify';
 
-import { TypedTransactionReceipt, WarpTxCategory } from '@hyperlane-xyz/sdk';
-import { toTitleCase, toWei } from '@hyperlane-xyz/utils';
+import { IToken, TypedTransactionReceipt, WarpTxCategory } from '@hyperlane-xyz/sdk';
+import { fromWei, pollAsync, toTitleCase, toWei } from '@hyperlane-xyz/utils';
 
 import { toastTxSuccess } from '../../components/toast/TxSuccessToast';
-import { getTokenByIndex, getWarpCore } from '../../context/context';
+import {
+  getIndexForToken,
+  getMultiProvider,
+  getTokenByIndex,
+  getWarpCore,
+  tryFindToken,
+} from '../../context/context';
+import { isAbortError, raceAbort } from '../../utils/abort';
 import { logger } from '../../utils/logger';
 import { getChainDisplayName } from '../chains/utils';
+import { RouteLeg, isMultiHopRoute, planRoute } from '../routes/routePlanner';
 import { AppState, useStore } from '../store';
 import {
   getAccountAddressForChain,
@@ -16,18 +24,53 @@ import {
   useTransactionFns,
 } from '../wallet/hooks/multiProtocol';
 
-import { TransferContext, TransferFormValues, TransferStatus } from './types';
+import {
+  CancellableTransferStatuses,
+  FeeQuote,
+  TransferContext,
+  TransferFormValues,
+  TransferStatus,
+} from './types';
+import { isFeeIncreaseAboveTolerance } from './useFeeQuotes';
 import { tryGetMsgIdFromTransferReceipt } from './utils';
 
 const CHAIN_MISMATCH_ERROR = 'ChainMismatchError';
 const TRANSFER_TIMEOUT_ERROR1 = 'block height exceeded';
 const TRANSFER_TIMEOUT_ERROR2 = 'timeout';
+const FEE_INCREASED_ERROR = 'Interchain fee increased beyond tolerance';
+const HOP_POLL_DELAY = 10_000; // 10s
+const HOP_POLL_ATTEMPTS = 180; // 30m
+
+// Abort controllers for in-progress transfers, keyed by transfer index
+const abortControllers = new Map<number, AbortController>();
+
+// Stops an in-progress transfer if its transfer tx has not been sent yet
+// Returns true if the transfer was still cancellable
+export function cancelTransfer(transferIndex: number) {
+  const controller = abortControllers.get(transferIndex);
+  if (!controller) return false;
+  logger.debug('Cancelling transfer at index', transferIndex);
+  controller.abort();
+  return true;
+}
 
 export function useTokenTransfer(onDone?: () => void) {
-  const { transfers, addTransfer, updateTransferStatus } = useStore((s) => ({
+  const {
+    transfers,
+    addTransfer,
+    updateTransferStatus,
+    addSubmittedTx,
+    addTransferLeg,
+    updateTransferLegStatus,
+    addTransferLegSubmittedTx,
+  } = useStore((s) => ({
     transfers: s.transfers,
     addTransfer: s.addTransfer,
     updateTransferStatus: s.updateTransferStatus,
+    addSubmittedTx: s.addSubmittedTx,
+    addTransferLeg: s.addTransferLeg,
+    updateTransferLegStatus: s.updateTransferLegStatus,
+    addTransferLegSubmittedTx: s.addTransferLegSubmittedTx,
   }));
   const transferIndex = transfers.length;
 
@@ -37,20 +80,41 @@ export function useTokenTransfer(onDone?: () => void) {
 
   const [isLoading, setIsLoading] = useState(false);
 
-  // TODO implement cancel callback for when modal is closed?
   const triggerTransactions = useCallback(
-    (values: TransferFormValues) =>
-      executeTransfer({
+    (values: TransferFormValues, feeQuote?: FeeQuote | null) => {
+      const originToken = getTokenByIndex(values.tokenIndex);
+      const legs = originToken ? planRoute(originToken, values.destination) : null;
+      if (legs && isMultiHopRoute(legs))
+        return executeMultiHopTransfer({
+          values,
+          legs,
+          feeQuote,
+          transferIndex,
+          activeAccounts,
+          activeChains,
+          transactionFns,
+          addTransfer,
+          updateTransferStatus,
+          addTransferLeg,
+          updateTransferLegStatus,
+          addTransferLegSubmittedTx,
+          setIsLoading,
+          onDone,
+        });
+      return executeTransfer({
         values,
+        feeQuote,
         transferIndex,
         activeAccounts,
         activeChains,
         transactionFns,
         addTransfer,
         updateTransferStatus,
+        addSubmittedTx,
         setIsLoading,
         onDone,
-      }),
+      });
+    },
     [
       transferIndex,
       activeAccounts,
@@ -59,6 +123,46 @@ export function useTokenTransfer(onDone?: () => void) {
       setIsLoading,
       addTransfer,
       updateTransferStatus,
+      addSubmittedTx,
+      addTransferLeg,
+      updateTransferLegStatus,
+      addTransferLegSubmittedTx,
+      onDone,
+    ],
+  );
+
+  // Continues a transfer that was interrupted after its approval was confirmed
+  const resumeTransaction = useCallback(
+    async (transfer: TransferContext) => {
+      const index = transfers.indexOf(transfer);
+      if (index < 0) return;
+      const { origin, destination, originTokenAddressOrDenom, amount, recipient } = transfer;
+      const tokenIndex = getIndexForToken(
+        tryFindToken(origin, originTokenAddressOrDenom) || undefined,
+      );
+      await executeTransfer({
+        values: { origin, destination, tokenIndex, amount, recipient },
+        transferIndex: index,
+        isResume: true,
+        activeAccounts,
+        activeChains,
+        transactionFns,
+        addTransfer,
+        updateTransferStatus,
+        addSubmittedTx,
+        setIsLoading,
+        onDone,
+      });
+    },
+    [
+      transfers,
+      activeAccounts,
+      activeChains,
+      transactionFns,
+      setIsLoading,
+      addTransfer,
+      updateTransferStatus,
+      addSubmittedTx,
       onDone,
     ],
   );
@@ -66,27 +170,36 @@ export function useTokenTransfer(onDone?: () => void) {
   return {
     isLoading,
     triggerTransactions,
+    resumeTransaction,
   };
 }
 
-async function executeTransfer({
+// Returns the status the transfer ended in
+export async function executeTransfer({
   values,
+  feeQuote,
   transferIndex,
+  isResume,
   activeAccounts,
   activeChains,
   transactionFns,
   addTransfer,
   updateTransferStatus,
+  addSubmittedTx,
   setIsLoading,
   onDone,
 }: {
   values: TransferFormValues;
+  // The quote the user reviewed, the transfer is aborted if the fee rose too much since
+  feeQuote?: FeeQuote | null;
   transferIndex: number;
+  isResume?: boolean;
   activeAccounts: ReturnType<typeof useAccounts>;
   activeChains: ReturnType<typeof useActiveChains>;
   transactionFns: ReturnType<typeof useTransactionFns>;
   addTransfer: (t: TransferContext) => void;
   updateTransferStatus: AppState['updateTransferStatus'];
+  addSubmittedTx: AppState['addSubmittedTx'];
   setIsLoading: (b: boolean) => void;
   onDone?: () => void;
 }) {
@@ -95,6 +208,10 @@ async function executeTransfer({
   let transferStatus: TransferStatus = TransferStatus.Preparing;
   updateTransferStatus(transferIndex, transferStatus);
 
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  abortControllers.set(transferIndex, abortController);
+
   const { origin, destination, tokenIndex, amount, recipient } = values;
   try {
     const originToken = getTokenByIndex(tokenIndex);
@@ -122,20 +239,35 @@ async function executeTransfer({
       throw new Error('Insufficient destination collateral');
     }
 
-    addTransfer({
-      timestamp: new Date().getTime(),
-      status: TransferStatus.Preparing,
-      origin,
-      destination,
-      originTokenAddressOrDenom: originToken.addressOrDenom,
-      destTokenAddressOrDenom: connection.token.addressOrDenom,
-      sender,
-      recipient,
-      amount,
-    });
+    if (!isResume) {
+      addTransfer({
+        timestamp: new Date().getTime(),
+        status: TransferStatus.Preparing,
+        origin,
+        destination,
+        originTokenAddressOrDenom: originToken.addressOrDenom,
+        destTokenAddressOrDenom: connection.token.addressOrDenom,
+        sender,
+        recipient,
+        amount,
+      });
+    }
 
+    signal.throwIfAborted();
     updateTransferStatus(transferIndex, (transferStatus = TransferStatus.CreatingTxs));
 
+    if (feeQuote) {
+      const interchainFee = await warpCore.getInterchainTransferFee({
+        originToken,
+        destination,
+        sender,
+      });
+      if (isFeeIncreaseAboveTolerance(feeQuote.interchainQuote, interchainFee))
+        throw new Error(
+          `${FEE_INCREASED_ERROR}: ${feeQuote.interchainQuote.amount} to ${interchainFee.amount}`,
+        );
+    }
+
     const txs = await warpCore.getTransferRemoteTxs({
       originTokenAmount,
       destination,
@@ -146,14 +278,21 @@ async function executeTransfer({
     const hashes: string[] = [];
     let txReceipt: TypedTransactionReceipt | undefined = undefined;
     for (const tx of txs) {
+      signal.throwIfAborted();
+      const isTransferTx = tx.category === WarpTxCategory.Transfer;
       updateTransferStatus(transferIndex, (transferStatus = txCategoryToStatuses[tx.category][0]));
       const { hash, confirm } = await sendTransaction({
         tx,
         chainName: origin,
         activeChainName: activeChain.chainName,
+        // Not passed for the transfer tx, a transfer signed after cancelling must still be tracked
+        signal: isTransferTx ? undefined : signal,
       });
+      addSubmittedTx(transferIndex, { category: tx.category, type: tx.type, hash });
+      // Once the transfer tx is out, the transfer can no longer be cancelled
+      if (isTransferTx) abortControllers.delete(transferIndex);
       updateTransferStatus(transferIndex, (transferStatus = txCategoryToStatuses[tx.category][1]));
-      txReceipt = await confirm();
+      txReceipt = isTransferTx ? await confirm() : await raceAbort(confirm(), signal);
       const description = toTitleCase(tx.category);
       logger.debug(`${description} transaction confirmed, hash:`, hash);
       toastTxSuccess(`${description} transaction sent!`, hash, origin);
@@ -167,6 +306,16 @@ async function executeTransfer({
       msgId,
     });
   } catch (error: any) {
+    // Wallet rejections after cancelling are counted as cancellations too
+    if (
+      isAbortError(error) ||
+      (signal.aborted && CancellableTransferStatuses.includes(transferStatus))
+    ) {
+      logger.debug(`Transfer cancelled at stage ${transferStatus}`);
+      updateTransferStatus(transferIndex, (transferStatus = TransferStatus.Cancelled));
+      toast.info('Transfer cancelled');
+      return finishTransfer(transferIndex, transferStatus, setIsLoading, onDone);
+    }
     logger.error(`Error at stage ${transferStatus}`, error);
     const errorDetails = error.message || error.toString();
     updateTransferStatus(transferIndex, TransferStatus.Failed);
@@ -180,13 +329,201 @@ async function executeTransfer({
       toast.error(
         `Transaction timed out, ${getChainDisplayName(origin)} may be busy. Please try again.`,
       );
+    } else if (errorDetails.includes(FEE_INCREASED_ERROR)) {
+      toast.error('The interchain fee rose since your review, please review the transfer again.');
     } else {
       toast.error(errorMessages[transferStatus] || 'Unable to transfer tokens.');
     }
+    transferStatus = TransferStatus.Failed;
+  }
+
+  return finishTransfer(transferIndex, transferStatus, setIsLoading, onDone);
+}
+
+// Sends each leg of a multi-hop route in turn, tracked as one parent transfer
+// Intermediate legs are sent to the user's own account on the next chain
+// Returns the status the parent transfer ended in
+export async function executeMultiHopTransfer({
+  values,
+  legs,
+  feeQuote,
+  transferIndex,
+  activeAccounts,
+  activeChains,
+  transactionFns,
+  addTransfer,
+  updateTransferStatus,
+  addTransferLeg,
+  updateTransferLegStatus,
+  addTransferLegSubmittedTx,
+  setIsLoading,
+  onDone,
+}: {
+  values: TransferFormValues;
+  legs: RouteLeg[];
+  // Quote of the first leg, later legs are quoted when they are sent
+  feeQuote?: FeeQuote | null;
+  transferIndex: number;
+  activeAccounts: ReturnType<typeof useAccounts>;
+  activeChains: ReturnType<typeof useActiveChains>;
+  transactionFns: ReturnType<typeof useTransactionFns>;
+  addTransfer: (t: TransferContext) => void;
+  updateTransferStatus: AppState['updateTransferStatus'];
+  addTransferLeg: AppState['addTransferLeg'];
+  updateTransferLegStatus: AppState['updateTransferLegStatus'];
+  addTransferLegSubmittedTx: AppState['addTransferLegSubmittedTx'];
+  setIsLoading: (b: boolean) => void;
+  onDone?: () => void;
+}) {
+  logger.debug(`Preparing multi-hop transfer with ${legs.length} legs`);
+  setIsLoading(true);
+  const { origin, destination, amount, recipient } = values;
+  const lastLeg = legs[legs.length - 1];
+  addTransfer({
+    timestamp: new Date().getTime(),
+    status: TransferStatus.Preparing,
+    origin,
+    destination,
+    originTokenAddressOrDenom: legs[0].originToken.addressOrDenom,
+    destTokenAddressOrDenom: lastLeg.destinationToken.addressOrDenom,
+    sender: getAccountAddressForChain(origin, activeAccounts.accounts) || '',
+    recipient,
+    amount,
+    legs: [],
+  });
+
+  let transferStatus: TransferStatus = TransferStatus.Preparing;
+  // Hops may deduct fees, so each leg sends what actually arrived from the previous one
+  let legAmount = amount;
+  for (let legIndex = 0; legIndex < legs.length; legIndex++) {
+    const leg = legs[legIndex];
+    const nextLeg = legs[legIndex + 1] as RouteLeg | undefined;
+    const legRecipient = nextLeg
+      ? getAccountAddressForChain(leg.destination, activeAccounts.accounts)
+      : recipient;
+    if (!legRecipient) {
+      logger.error('No account found for intermediate chain', leg.destination);
+      toast.error(`Connect a wallet for ${getChainDisplayName(leg.destination)} to continue`);
+      transferStatus = TransferStatus.Failed;
+      break;
+    }
+
+    // Recorded before sending so the arrival on the next chain can be detected
+    const balanceBefore = nextLeg ? await tryGetBalance(nextLeg.originToken, legRecipient) : null;
+
+    const legStatus = await executeTransfer({
+      values: {
+        origin: leg.originToken.chainName,
+        destination: leg.destination,
+        tokenIndex: getIndexForToken(leg.originToken),
+        amount: legAmount,
+        recipient: legRecipient,
+      },
+      feeQuote: legIndex === 0 ? feeQuote : undefined,
+      // Keyed by the parent so cancelling the parent cancels the current leg
+      transferIndex,
+      activeAccounts,
+      activeChains,
+      transactionFns,
+      addTransfer: (t) => addTransferLeg(transferIndex, t),
+      updateTransferStatus: (_, s, options) => {
+        updateTransferLegStatus(transferIndex, legIndex, s, options);
+        // The parent only reports confirmation once the last leg is sent
+        if (s !== TransferStatus.ConfirmedTransfer) updateTransferStatus(transferIndex, s);
+      },
+      addSubmittedTx: (_, tx) => addTransferLegSubmittedTx(transferIndex, legIndex, tx),
+      setIsLoading: () => {},
+    });
+
+    const legTransfer = useStore.getState().transfers[transferIndex]?.legs?.[legIndex];
+    if (legStatus !== TransferStatus.ConfirmedTransfer) {
+      transferStatus = legStatus;
+      break;
+    }
+    if (!nextLeg) {
+      // The last leg's message is the one delivered to the final recipient
+      updateTransferStatus(transferIndex, (transferStatus = TransferStatus.ConfirmedTransfer), {
+        originTxHash: legTransfer?.originTxHash,
+        msgId: legTransfer?.msgId,
+      });
+      break;
+    }
+
+    updateTransferStatus(transferIndex, (transferStatus = TransferStatus.AwaitingHop), {
+      originTxHash: legTransfer?.originTxHash,
+    });
+    try {
+      const received = await waitForHopArrival(
+        nextLeg.originToken,
+        legRecipient,
+        legAmount,
+        balanceBefore,
+      );
+      legAmount = fromWei(received.toString(), nextLeg.originToken.decimals);
+    } catch (error) {
+      logger.error(`Funds did not arrive on ${leg.destination}`, error);
+      toast.error(
+        `Funds did not arrive on ${getChainDisplayName(leg.destination)} in time, ` +
+          'check your balance there before retrying.',
+      );
+      transferStatus = TransferStatus.Failed;
+      break;
+    }
   }
 
+  if (transferStatus !== TransferStatus.ConfirmedTransfer)
+    updateTransferStatus(transferIndex, transferStatus);
+  return finishTransfer(transferIndex, transferStatus, setIsLoading, onDone);
+}
+
+async function tryGetBalance(token: IToken, address: Address) {
+  try {
+    const balance = await token.getBalance(getMultiProvider(), address);
+    return balance.amount;
+  } catch (error) {
+    logger.warn(`Error fetching balance of ${token.symbol} on ${token.chainName}`, error);
+    return null;
+  }
+}
+
+// Polls the balance of the next leg's token until the transferred funds have arrived
+// Returns the amount received, which is less than sent if the hop deducted fees
+async function waitForHopArrival(
+  token: IToken,
+  address: Address,
+  amount: string,
+  balanceBefore: bigint | null,
+): Promise<bigint> {
+  const expected = BigInt(toWei(amount, token.decimals));
+  return pollAsync(
+    async () => {
+      const balance = await tryGetBalance(token, address);
+      if (balance === null) throw new Error('Funds not yet arrived');
+      // Without a starting balance, any balance covering the amount is enough
+      if (balanceBefore === null) {
+        if (balance < expected) throw new Error('Funds not yet arrived');
+        return expected;
+      }
+      const received = balance - balanceBefore;
+      if (received <= 0n) throw new Error('Funds not yet arrived');
+      // Never forward more than was sent, the rest of the balance belongs to the user
+      return received < expected ? received : expected;
+    },
+    HOP_POLL_DELAY,
+    HOP_POLL_ATTEMPTS,
+  );
+}
+
+function finishTransfer(
+  transferIndex: number,
+  transferStatus: TransferStatus,
+  setIsLoading: (b: boolean) => void,
+  onDone?: () => void,
+) {
+  abortControllers.delete(transferIndex);
   setIsLoading(false);
   if (onDone) onDone();
+  return transferStatus;
 }
 
 const errorMessages: Partial<Record<TransferStatus, string>> = {
@@ -9,6 +9,8 @@ import {
 import { getMultiProvider } from '../../context/context';
 import { logger } from '../../utils/logger';
 
+import { SubmittedTx } from './types';
+
 export function tryGetMsgIdFromTransferReceipt(
   origin: ChainName,
   receipt: TypedTransactionReceipt,
@@ -53,3 +55,50 @@ export function tryGetMsgIdFromTransferReceipt(
     return undefined;
   }
 }
+
+// Looks up the receipt of a previously submitted tx on its origin chain
+// Returns null if the tx has not (yet) been included
+export async function fetchSubmittedTxReceipt(
+  origin: ChainName,
+  { type, hash }: SubmittedTx,
+): Promise<{ receipt: TypedTransactionReceipt; isSuccess: boolean } | null> {
+  const multiProvider = getMultiProvider();
+  if (type === ProviderType.EthersV5 || type === ProviderType.Viem) {
+    const client = multiProvider.getViemProvider(origin);
+    const receipt = await client
+      .getTransactionReceipt({ hash: hash as `0x${string}` })
+      .catch(() => null);
+    if (!receipt) return null;
+    return {
+      receipt: { type: ProviderType.Viem, receipt },
+      isSuccess: receipt.status === 'success',
+    };
+  } else if (type === ProviderType.SolanaWeb3) {
+    const connection = multiProvider.getSolanaWeb3Provider(origin);
+    const receipt = await connection.getTransaction(hash, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!receipt) return null;
+    return {
+      receipt: { type: ProviderType.SolanaWeb3, receipt: receipt as any },
+      isSuccess: !receipt.meta?.err,
+    };
+  } else if (type === ProviderType.CosmJsWasm || type === ProviderType.CosmJs) {
+    const client =
+      type === ProviderType.CosmJsWasm
+        ? await multiProvider.getCosmJsWasmProvider(origin)
+        : await multiProvider.getCosmJsProvider(origin);
+    const txDetails = await client.getTx(hash);
+    if (!txDetails) return null;
+    return {
+      receipt: {
+        type,
+        receipt: { ...txDetails, transactionHash: hash },
+      } as TypedTransactionReceipt,
+      isSuccess: txDetails.code === 0,
+    };
+  } else {
+    throw new Error(`Unsupported tx type: ${type}`);
+  }
+}
@@ -1,5 +1,5 @@
 import Image from 'next/image';
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 
 import { SmallSpinner } from '../../components/animation/SmallSpinner';
@@ -12,10 +12,16 @@ import Logout from '../../images/icons/logout.svg';
 import ResetIcon from '../../images/icons/reset-icon.svg';
 import Wallet from '../../images/icons/wallet.svg';
 import { tryClipboardSet } from '../../utils/clipboard';
+import { tryReadFileAsText } from '../../utils/file';
+import { logger } from '../../utils/logger';
 import { STATUSES_WITH_ICON, getIconByTransferStatus } from '../../utils/transfer';
+import { RpcDiagnosticsPanel } from '../chains/RpcDiagnosticsPanel';
 import { getChainDisplayName } from '../chains/utils';
+import { RegistryPanel } from '../registry/RegistryPanel';
+import { CompliancePanel } from '../sanctions/CompliancePanel';
 import { useStore } from '../store';
 import { TransfersDetailsModal } from '../transfer/TransfersDetailsModal';
+import { exportTransferHistory, parseTransferHistory } from '../transfer/history';
 import { TransferContext } from '../transfer/types';
 
 import { useAccounts, useDisconnectFns, useWalletDetails } from './hooks/multiProtocol';
@@ -36,6 +42,7 @@ export function SideBarMenu({
   const disconnectFns = useDisconnectFns();
   const { readyAccounts } = useAccounts();
   const didMountRef = useRef(false);
+  const autoOpenedIndexRef = useRef<number | null>(null);
 
   const { transfers, resetTransfers, transferLoading } = useStore((s) => ({
     transfers: s.transfers,
@@ -46,7 +53,9 @@ export function SideBarMenu({
   useEffect(() => {
     if (!didMountRef.current) {
       didMountRef.current = true;
-    } else if (transferLoading) {
+    } else if (transferLoading && autoOpenedIndexRef.current !== transfers.length - 1) {
+      // Open once per new transfer so closing the modal mid-flow isn't undone by status updates
+      autoOpenedIndexRef.current = transfers.length - 1;
       setSelectedTransfer(transfers[transfers.length - 1]);
       setIsModalOpen(true);
     }
@@ -98,6 +107,9 @@ export function SideBarMenu({
               <Icon src={Logout} alt="" size={20} />
               <div className="ml-2">Disconnect all wallets</div>
             </button>
+            <CompliancePanel />
+            <RpcDiagnosticsPanel />
+            <RegistryPanel />
           </div>
           <div className="mb-4 w-full bg-primary-500 px-3.5 py-2 text-base font-normal tracking-wider text-white">
             Transfer History
@@ -116,8 +128,9 @@ export function SideBarMenu({
                   />
                 ))}
             </div>
+            <TransferHistoryActions transfers={sortedTransfers} />
             {sortedTransfers?.length > 0 && (
-              <button onClick={resetTransfers} className={`${styles.btn} mx-2 my-5`}>
+              <button onClick={resetTransfers} className={`${styles.btn} mx-2 mb-5`}>
                 <Image className="mr-4" src={ResetIcon} width={17} height={17} alt="" />
                 <span className="text-sm font-normal text-gray-900">Reset transaction history</span>
               </button>
@@ -214,6 +227,64 @@ function TransferSummary({
   );
 }
 
+function TransferHistoryActions({ transfers }: { transfers: TransferContext[] }) {
+  const importTransfers = useStore((s) => s.importTransfers);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const onSelectFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be selected again
+    e.target.value = '';
+    if (!file) return;
+    const content = await tryReadFileAsText(file);
+    if (!content) {
+      toast.error('Unable to read transfer history file');
+      return;
+    }
+    try {
+      const numImported = importTransfers(parseTransferHistory(content));
+      toast.success(`Imported ${numImported} new transfer${numImported === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      logger.warn('Error importing transfer history', error);
+      toast.error(error?.message || 'Invalid transfer history file');
+    }
+  };
+
+  return (
+    <div className="mx-2 mt-5 flex items-center justify-between gap-2 pb-2 text-sm text-gray-900">
+      {transfers.length > 0 && (
+        <>
+          <button
+            onClick={() => exportTransferHistory(transfers, 'csv')}
+            className={`${styles.btn} justify-center`}
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportTransferHistory(transfers, 'json')}
+            className={`${styles.btn} justify-center`}
+          >
+            Export JSON
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className={`${styles.btn} justify-center`}
+      >
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={onSelectFile}
+      />
+    </div>
+  );
+}
+
 function Icon({
   src,
   alt,
@@ -7,6 +7,7 @@ import { ProviderType, TypedTransactionReceipt, WarpTypedTransaction } from '@hy
 import { HexString, ProtocolType, assert } from '@hyperlane-xyz/utils';
 
 import { PLACEHOLDER_COSMOS_CHAIN } from '../../../consts/values';
+import { raceAbort } from '../../../utils/abort';
 import { logger } from '../../../utils/logger';
 import { getCosmosChainNames } from '../../chains/metadata';
 import { getChainMetadata } from '../../chains/utils';
@@ -85,10 +86,12 @@ export function useCosmosTransactionFns(): ChainTransactionFns {
       tx,
       chainName,
       activeChainName,
+      signal,
     }: {
       tx: WarpTypedTransaction;
       chainName: ChainName;
       activeChainName?: ChainName;
+      signal?: AbortSignal;
     }) => {
       const chainContext = chainToContext[chainName];
       if (!chainContext?.address) throw new Error(`Cosmos wallet not connected for ${chainName}`);
@@ -101,7 +104,10 @@ export function useCosmosTransactionFns(): ChainTransactionFns {
       let txDetails: IndexedTx | null;
       if (tx.type === ProviderType.CosmJsWasm) {
         const client = await getSigningCosmWasmClient();
-        result = await client.executeMultiple(chainContext.address, [tx.transaction], 'auto');
+        result = await raceAbort(
+          client.executeMultiple(chainContext.address, [tx.transaction], 'auto'),
+          signal,
+        );
         txDetails = await client.getTx(result.transactionHash);
       } else if (tx.type === ProviderType.CosmJs) {
         const client = await getSigningStargateClient();
@@ -109,7 +115,10 @@ export function useCosmosTransactionFns(): ChainTransactionFns {
         // It seems the signAndBroadcast method uses a default fee multiplier of 1.4
         // https://github.com/cosmos/cosmjs/blob/e819a1fc0e99a3e5320d8d6667a08d3b92e5e836/packages/stargate/src/signingstargateclient.ts#L115
         // Bumping to 1.6 fixes the insufficient gas issue
-        result = await client.signAndBroadcast(chainContext.address, [tx.transaction], 1.6);
+        result = await raceAbort(
+          client.signAndBroadcast(chainContext.address, [tx.transaction], 1.6),
+          signal,
+        );
         txDetails = await client.getTx(result.transactionHash);
       } else {
         throw new Error(`Invalid cosmos provider type ${tx.type}`);
@@ -7,6 +7,7 @@ import { useAccount, useDisconnect, useNetwork } from 'wagmi';
 import { ProviderType, TypedTransactionReceipt, WarpTypedTransaction } from '@hyperlane-xyz/sdk';
 import { ProtocolType, assert, sleep } from '@hyperlane-xyz/utils';
 
+import { raceAbort } from '../../../utils/abort';
 import { logger } from '../../../utils/logger';
 import { getChainMetadata, tryGetChainMetadata } from '../../chains/utils';
 import { ethers5TxToWagmiTx } from '../utils';
@@ -99,10 +100,12 @@ export function useEvmTransactionFns(): ChainTransactionFns {
       tx,
       chainName,
       activeChainName,
+      signal,
     }: {
       tx: WarpTypedTransaction;
       chainName: ChainName;
       activeChainName?: ChainName;
+      signal?: AbortSignal;
     }) => {
       if (tx.type !== ProviderType.EthersV5) throw new Error(`Unsupported tx type: ${tx.type}`);
 
@@ -120,10 +123,13 @@ export function useEvmTransactionFns(): ChainTransactionFns {
 
       logger.debug(`Sending tx on chain ${chainName}`);
       const wagmiTx = ethers5TxToWagmiTx(tx.transaction);
-      const { hash } = await sendTransaction({
-        chainId,
-        ...wagmiTx,
-      });
+      const { hash } = await raceAbort(
+        sendTransaction({
+          chainId,
+          ...wagmiTx,
+        }),
+        signal,
+      );
       const confirm = (): Promise<TypedTransactionReceipt> =>
         waitForTransaction({ chainId, hash, confirmations: 1 }).then((r) => ({
           type: ProviderType.Viem,
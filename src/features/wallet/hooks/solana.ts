@@ -7,6 +7,7 @@ import { ProviderType, TypedTransactionReceipt, WarpTypedTransaction } from '@hy
 import { ProtocolType } from '@hyperlane-xyz/utils';
 
 import { getMultiProvider } from '../../../context/context';
+import { raceAbort } from '../../../utils/abort';
 import { logger } from '../../../utils/logger';
 import { getChainByRpcUrl } from '../../chains/utils';
 
@@ -81,10 +82,12 @@ export function useSolTransactionFns(): ChainTransactionFns {
       tx,
       chainName,
       activeChainName,
+      signal,
     }: {
       tx: WarpTypedTransaction;
       chainName: ChainName;
       activeChainName?: ChainName;
+      signal?: AbortSignal;
     }) => {
       if (tx.type !== ProviderType.SolanaWeb3) throw new Error(`Unsupported tx type: ${tx.type}`);
       if (activeChainName && activeChainName !== chainName) await onSwitchNetwork(chainName);
@@ -96,7 +99,10 @@ export function useSolTransactionFns(): ChainTransactionFns {
       } = await connection.getLatestBlockhashAndContext();
 
       logger.debug(`Sending tx on chain ${chainName}`);
-      const signature = await sendSolTransaction(tx.transaction, connection, { minContextSlot });
+      const signature = await raceAbort(
+        sendSolTransaction(tx.transaction, connection, { minContextSlot }),
+        signal,
+      );
 
       const confirm = (): Promise<TypedTransactionReceipt> =>
         connection
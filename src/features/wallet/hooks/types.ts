@@ -35,6 +35,8 @@ export type SendTransactionFn<
   tx: TxReq;
   chainName: ChainName;
   activeChainName?: ChainName;
+  // Stops waiting on the wallet prompt when aborted, a tx signed afterwards is not tracked
+  signal?: AbortSignal;
 }) => Promise<{ hash: string; confirm: () => Promise<TxResp> }>;
 
 export type SwitchNetworkFn = (chainName: ChainName) => Promise<void>;
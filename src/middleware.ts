@@ -1,63 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import {
+  DEFAULT_GEO_POLICY,
+  GeoPolicy,
+  getGeoBlockReason,
+  isPathExempt,
+  parseGeoPolicy,
+} from './features/geo/geoPolicy';
+import { logger } from './utils/logger';
+
 export const config = {
-  // only run on the index
-  matcher: '/',
+  // Run on all routes except Next.js internals and static files
+  matcher: '/((?!_next/|.*\\..*).*)',
 };
 
-const BLOCKED_COUNTRIES = [
-  'CU', // Cuba
-  'KP', // North Korea
-  'RU', // Russia
-  'AF', // Afghanistan
-  'BY', // Belarus
-  'BA', // Bosnia & Herzegovina
-  'CF', // Central African Republic
-  'CD', // Democratic Republic of the Congo
-  'GN', // Guinea
-  'GW', // Guinea-Bissau
-  'HT', // Haiti
-  'IQ', // Iraq
-  'LB', // Lebanon
-  'LY', // Libya
-  'ML', // Mali
-  'NI', // Nicaragua
-  'SO', // Somalia
-  'SS', // South Sudan
-  'SD', // Sudan
-  'VE', // Venezuela
-  'YE', // Yemen
-  'ZW', // Zimbabwe
-  'MM', // Myanmar
-  'SY', // Syria
-];
+// JSON with any of blockedCountries, blockedRegions and exemptPaths, see GeoPolicySchema
+const geoPolicy = loadGeoPolicy(process?.env?.GEO_BLOCK_POLICY);
 
-const BLOCKED_REGIONS = [
-  {
-    country: 'UA', // Ukraine
-    regions: [
-      '43', // Crimea
-      '14', // Donetsk
-      '09', // Luhansk
-    ],
-  },
-];
+function loadGeoPolicy(json?: string): GeoPolicy {
+  try {
+    return parseGeoPolicy(json);
+  } catch (error) {
+    // Fall back to the stricter default rather than not blocking at all
+    logger.error('Invalid GEO_BLOCK_POLICY, using default policy', error);
+    return DEFAULT_GEO_POLICY;
+  }
+}
 
 export function middleware(req: NextRequest) {
-  const country = req.geo?.country;
-  const region = req.geo?.region;
+  if (isPathExempt(geoPolicy, req.nextUrl.pathname)) return NextResponse.next();
 
-  if (country && BLOCKED_COUNTRIES.includes(country)) {
-    return NextResponse.redirect(new URL('/blocked', req.url));
-  }
-
-  if (
-    country &&
-    region &&
-    BLOCKED_REGIONS.find((x) => x.country === country)?.regions.includes(region)
-  ) {
-    return NextResponse.redirect(new URL('/blocked', req.url));
-  }
+  const reason = getGeoBlockReason(geoPolicy, {
+    country: req.geo?.country,
+    region: req.geo?.region,
+  });
+  if (!reason) return NextResponse.next();
 
-  return NextResponse.next();
+  const blockedUrl = new URL('/blocked', req.url);
+  blockedUrl.searchParams.set('country', reason.country);
+  if (reason.region) blockedUrl.searchParams.set('region', reason.region);
+  return NextResponse.redirect(blockedUrl);
 }
@@ -1,10 +1,22 @@
+import { useRouter } from 'next/router';
+
 import { ErrorBoundary } from '../components/errors/ErrorBoundary';
 
 export default function Page() {
+  const router = useRouter();
+  // Wait for the query so the error message includes the block reason
+  if (!router.isReady) return null;
+
+  const { country, region } = router.query;
+  const location = [country, region].filter((v) => typeof v === 'string' && v).join('-');
+  const message = location
+    ? `Your region (${location}) has been blocked from accessing this service`
+    : 'Your region has been blocked from accessing this service';
+
   return (
     <ErrorBoundary>
       {(() => {
-        throw new Error('Your region has been blocked from accessing this service');
+        throw new Error(message);
       })()}
     </ErrorBoundary>
   );
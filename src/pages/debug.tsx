@@ -0,0 +1,18 @@
+import type { GetStaticProps, NextPage } from 'next';
+
+import { DebugPanel } from '../features/debug/DebugPanel';
+import { isDebugPageEnabled } from '../features/debug/utils';
+
+// Only served in dev mode or when enabled in config
+export const getStaticProps: GetStaticProps = () =>
+  isDebugPageEnabled() ? { props: {} } : { notFound: true };
+
+const Debug: NextPage = () => {
+  return (
+    <div className="w-full pt-4">
+      <DebugPanel />
+    </div>
+  );
+};
+
+export default Debug;
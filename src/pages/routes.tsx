@@ -0,0 +1,13 @@
+import type { NextPage } from 'next';
+
+import { RoutesExplorer } from '../features/routes/RoutesExplorer';
+
+const Routes: NextPage = () => {
+  return (
+    <div className="pt-4">
+      <RoutesExplorer />
+    </div>
+  );
+};
+
+export default Routes;
@@ -0,0 +1,15 @@
+export function isAbortError(error: any) {
+  return error?.name === 'AbortError';
+}
+
+// Rejects as soon as the signal is aborted, without waiting for the promise
+// Note: this only stops waiting, the underlying operation may still complete
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -2,3 +2,12 @@ export function formatTimestamp(timestamp: number): string {
   const date = new Date(timestamp);
   return `${date.toLocaleTimeString()} ${date.toLocaleDateString()}`;
 }
+
+// Formats a duration in ms as e.g. '45s', '2m 5s' or '1h 3m'
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,82 @@
+import { logger } from './logger';
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export async function tryReadFileAsText(file: File) {
+  try {
+    return await file.text();
+  } catch (error) {
+    logger.error('Failed to read file', error);
+    return null;
+  }
+}
+
+// Spreadsheets evaluate cells starting with these as formulas
+const CSV_FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+const CSV_FORMULA_GUARD_REGEX = /^'[=+\-@\t\r]/;
+
+export function toCsv(headers: string[], rows: Array<Array<string | number | undefined | null>>) {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\n');
+}
+
+// Parses CSV content into rows of string values
+// Supports quoted values containing commas, newlines and escaped quotes
+// Reverts the formula guard added by toCsv so exported files can be imported again
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows
+    .filter((r) => r.some((v) => !!v.trim()))
+    .map((r) => r.map((v) => (CSV_FORMULA_GUARD_REGEX.test(v) ? v.slice(1) : v)));
+}
+
+function escapeCsvValue(value: string | number | undefined | null) {
+  if (value === undefined || value === null) return '';
+  let str = value.toString();
+  // Values come from users and imports, guard them against formula injection
+  if (typeof value === 'string' && CSV_FORMULA_PREFIX_REGEX.test(str)) str = `'${str}`;
+  if (/[",\n\r]/.test(str)) return `"${str.replace(/"/g, '""')}"`;
+  return str;
+}
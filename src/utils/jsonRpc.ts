@@ -0,0 +1,30 @@
+const DEFAULT_TIMEOUT = 5_000; // 5s
+
+// Sends a single JSON-RPC 2.0 request and returns its result
+// Throws on HTTP errors, RPC errors and when the timeout elapses
+export async function fetchJsonRpc<T = any>(
+  url: string,
+  method: string,
+  params: unknown[] = [],
+  timeout = DEFAULT_TIMEOUT,
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const body = await res.json();
+    if (body?.error) throw new Error(body.error.message || 'RPC error');
+    return body?.result as T;
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error('Timed out');
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -6,6 +6,7 @@ import {
 import ConfirmedIcon from '../images/icons/confirmed-icon.svg';
 import DeliveredIcon from '../images/icons/delivered-icon.svg';
 import ErrorCircleIcon from '../images/icons/error-circle.svg';
+import XCircleIcon from '../images/icons/x-circle.svg';
 
 export function getTransferStatusLabel(
   status: TransferStatus,
@@ -23,6 +24,8 @@ export function getTransferStatusLabel(
     statusDescription = `Sign approve transaction in ${connectorName} to continue.`;
   else if (status === TransferStatus.ConfirmingApprove)
     statusDescription = 'Confirming approve transaction...';
+  else if (status === TransferStatus.AwaitingResume)
+    statusDescription = 'Approval confirmed, continue to sign the transfer transaction.';
   else if (status === TransferStatus.SigningTransfer)
     statusDescription = `Sign transfer transaction in ${connectorName} to continue.`;
   else if (status === TransferStatus.ConfirmingTransfer)
@@ -33,10 +36,13 @@ export function getTransferStatusLabel(
     else
       statusDescription =
         'Transfer confirmed, the funds will arrive when the message is delivered.';
+  else if (status === TransferStatus.AwaitingHop)
+    statusDescription = 'Waiting for the funds to arrive on the next chain of the route...';
   else if (status === TransferStatus.Delivered)
     statusDescription = 'Delivery complete, transfer successful!';
   else if (status === TransferStatus.Failed)
     statusDescription = 'Transfer failed, please try again.';
+  else if (status === TransferStatus.Cancelled) statusDescription = 'Transfer cancelled.';
 
   return statusDescription;
 }
@@ -49,10 +55,15 @@ export function isTransferFailed(status: TransferStatus) {
   return status === TransferStatus.Failed;
 }
 
+export function isTransferCancelled(status: TransferStatus) {
+  return status === TransferStatus.Cancelled;
+}
+
 export const STATUSES_WITH_ICON = [
   TransferStatus.Delivered,
   TransferStatus.ConfirmedTransfer,
   TransferStatus.Failed,
+  TransferStatus.Cancelled,
 ];
 
 export function getIconByTransferStatus(status: TransferStatus) {
@@ -63,6 +74,8 @@ export function getIconByTransferStatus(status: TransferStatus) {
       return ConfirmedIcon;
     case TransferStatus.Failed:
       return ErrorCircleIcon;
+    case TransferStatus.Cancelled:
+      return XCircleIcon;
     default:
       return ErrorCircleIcon;
   }
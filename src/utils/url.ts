@@ -13,3 +13,12 @@ export function isValidHttpsUrl(urlString: string | null | undefined): boolean {
     return false;
   }
 }
+
+// Allows plain http too, e.g. for RPC nodes on localhost
+export function isValidHttpUrl(urlString: string | null | undefined): boolean {
+  try {
+    return !!urlString && ['http:', 'https:'].includes(new URL(urlString).protocol);
+  } catch (e) {
+    return false;
+  }
+}